@@ -2,11 +2,38 @@ import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { LANGUAGES, getLanguageByCode, getTargetLanguages } from './constants/languages';
 import { useTranslation } from './hooks/useTranslation';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
+import { applyDictation } from './services/dictation';
 import { useHistory, type HistoryItem } from './hooks/useHistory';
 import { useDictionary } from './hooks/useDictionary';
-import { useVideoTranslation } from './hooks/useVideoTranslation';
+import { useVocabulary, type VocabEntry } from './hooks/useVocabulary';
+import { useVideoTranslation, DEFAULT_CUE_CONCURRENCY, type TranscriptionEngine } from './hooks/useVideoTranslation';
+import { WHISPER_MODELS, DEFAULT_WHISPER_MODEL } from './services/transcription/whisper';
+import { useDubbing } from './hooks/useDubbing';
+import { useCaptionTracks, CAPTION_TRACKS, type CaptionMode } from './hooks/useCaptionTracks';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useOutbox, type DeliveredTranslation } from './hooks/useOutbox';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { ConversationPanel } from './components/ConversationPanel';
+import { StudyPanel } from './components/StudyPanel';
+import { VocabularyPanel } from './components/VocabularyPanel';
+import { DictEntryDetails } from './components/DictEntryDetails';
+import { DictPacksPanel } from './components/DictPacksPanel';
+import { SubtitleEditor } from './components/SubtitleEditor';
+import { isDueToday } from './services/srs';
+import { toAnkiTsv, parseWordList } from './services/anki';
+import { HISTORY_MIME_TYPES, type HistoryFormat } from './services/historyFormats';
+import { SUBTITLE_MIME_TYPES, serializeSubtitles, isSubtitleFile, cueText, type SubtitleFormat, type SubtitleTrack } from './services/subtitles';
+import { MEDIA_ACCEPT } from './services/media';
+import { downloadFile } from './utils/file';
+import { listProviders, setActiveProvider, registerProvider, getActiveProvider, createLibreTranslateProvider, isServerUrl, getCacheStats, clearCache, type CacheStats } from './services/translation';
+
+/** Timestamp → value for <input type="date"> in local time */
+function toDateInput(ts: number) {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
 
-type AppStatus = 'idle' | 'listening' | 'translating' | 'done' | 'error';
+type AppStatus = 'idle' | 'listening' | 'translating' | 'done' | 'error' | 'offline';
 type TabType = 'voice' | 'dictionary' | 'video';
 
 export function App() {
@@ -17,6 +44,7 @@ export function App() {
 
   // ===== TABS =====
   const [activeTab, setActiveTab] = useState<TabType>('voice');
+  const [voiceMode, setVoiceMode] = useState<'single' | 'conversation'>('single');
 
   // ===== VOICE TRANSLATOR STATE =====
   const [sourceLang, setSourceLang] = useState('uz');
@@ -26,10 +54,21 @@ export function App() {
   const [appStatus, setAppStatus] = useState<AppStatus>('idle');
   const [errorMsg, setErrorMsg] = useState('');
   const [showHistory, setShowHistory] = useState(false);
+  const [historyMessage, setHistoryMessage] = useState('');
   const [speechRate, setSpeechRate] = useState(1);
   const [speechVolume, setSpeechVolume] = useState(1);
+  const [continuousDictation, setContinuousDictation] = useState(false);
   const [fontSize, setFontSize] = useState(16);
   const [showSettings, setShowSettings] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showDictPacks, setShowDictPacks] = useState(false);
+  const [providerId, setProviderId] = useState('mymemory');
+  const [libreUrl, setLibreUrl] = useState('');
+  const [libreApiKey, setLibreApiKey] = useState('');
+  /** Server settings as last applied, trailing the inputs while the user types */
+  const [libreConfig, setLibreConfig] = useState({ baseUrl: '', apiKey: '' });
+  const [supportedLangs, setSupportedLangs] = useState<Set<string> | null>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
   const [copied, setCopied] = useState(false);
   const [isSwapping, setIsSwapping] = useState(false);
   const [sourceSearch, setSourceSearch] = useState('');
@@ -42,6 +81,21 @@ export function App() {
   const [dictSourceLang, setDictSourceLang] = useState('en');
   const [dictTargetLang, setDictTargetLang] = useState('uz');
   const [showSavedWords, setShowSavedWords] = useState(false);
+  const [studyCards, setStudyCards] = useState<VocabEntry[] | null>(null);
+  const [wordsMessage, setWordsMessage] = useState('');
+  const [subtitleTrack, setSubtitleTrack] = useState<SubtitleTrack>('bilingual');
+  const [isEditingSubtitles, setIsEditingSubtitles] = useState(false);
+  const [captionMode, setCaptionMode] = useState<CaptionMode>('translated');
+  const [captionSize, setCaptionSize] = useState(18);
+  const [captionLine, setCaptionLine] = useState(85);
+  const [cueConcurrency, setCueConcurrency] = useState(DEFAULT_CUE_CONCURRENCY);
+  const [transcriptionEngine, setTranscriptionEngine] = useState<TranscriptionEngine>('webspeech');
+  const [whisperModel, setWhisperModel] = useState<string>(DEFAULT_WHISPER_MODEL);
+  const [isDubbing, setIsDubbing] = useState(false);
+  /** Chosen dubbing voice (voiceURI) per target language */
+  const [dubVoices, setDubVoices] = useState<Record<string, string>>({});
+  const [dubOriginalVolume, setDubOriginalVolume] = useState(0.15);
+  const [dubWaitForSpeech, setDubWaitForSpeech] = useState(true);
 
   // ===== VIDEO STATE =====
   const [videoSourceLang, setVideoSourceLang] = useState('en');
@@ -52,17 +106,45 @@ export function App() {
   const sourceRef = useRef<HTMLDivElement>(null);
   const targetRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const historyImportRef = useRef<HTMLInputElement>(null);
+  const wordsImportRef = useRef<HTMLInputElement>(null);
 
   // ===== HOOKS =====
-  const { translate, translatedText, status: translationStatus, detectedLang, clearTranslation, setTranslatedText } = useTranslation();
-  const { history, addToHistory, clearHistory } = useHistory();
-  const { searchWord, result: dictResult, status: dictStatus, savedWords, saveWord, removeWord, clearDict } = useDictionary();
+  const { translate, cancel: cancelTranslation, translatedText, status: translationStatus, detectedLang, progress: translationProgress, clearTranslation, setTranslatedText } = useTranslation();
+  const {
+    history, total: historyTotal, count: historyCount, filters: historyFilters, setFilters: setHistoryFilters,
+    page: historyPage, pageCount: historyPageCount, setPage: setHistoryPage,
+    addToHistory, togglePin, deleteItem: deleteHistoryItem, clearHistory, exportHistory, importHistory
+  } = useHistory();
+  const isOnline = useOnlineStatus();
+  const deliverQueued = useCallback((item: DeliveredTranslation) => {
+    addToHistory({ ...item, translatedLater: true });
+  }, [addToHistory]);
+  const { items: outboxItems, failedItems: failedOutboxItems, enqueue: queueTranslation, retryFailed: retryFailedOutbox, discardFailed: discardFailedOutbox, isReplaying } = useOutbox(isOnline, deliverQueued);
+  const { searchWord, result: dictResult, status: dictStatus, clearDict } = useDictionary();
+  const { words: savedWords, decks, allTags, saveWord, removeWord, updateWord, reviewWord, importWords, isSaved, addDeck, removeDeck } = useVocabulary();
   const {
-    videoUrl, videoName, status: videoStatus, progress: videoProgress,
+    videoUrl, videoName, mediaKind, status: videoStatus, progress: videoProgress,
     originalText: videoOriginalText, translatedText: videoTranslatedText,
-    subtitles, errorMsg: videoError, videoRef,
-    loadVideo, extractAndTranscribe, stopProcessing, clearVideo, formatTime
+    subtitles, setSubtitles, errorMsg: videoError, subtitleFile, rateLimitedUntil, modelProgress, resumePosition, videoRef,
+    loadVideo, loadSubtitles, translateSubtitles, retryCue, extractAndTranscribe, transcribeOffline, finishTranscription, stopProcessing, clearVideo, formatTime
   } = useVideoTranslation();
+  const failedCueCount = useMemo(() => subtitles.filter(s => s.translationFailed).length, [subtitles]);
+  const { activeCueId } = useCaptionTracks(videoRef, videoUrl, subtitles, { mode: captionMode, line: captionLine });
+  const activeCue = useMemo(() => subtitles.find(s => s.id === activeCueId) ?? null, [subtitles, activeCueId]);
+  const hasTranslatedCues = useMemo(() => subtitles.some(s => s.translatedText), [subtitles]);
+  // Transcription listens to the speakers, so it must not hear the dub
+  const { voices: dubVoiceOptions, speakingCueId } = useDubbing(videoRef, videoUrl, subtitles, {
+    enabled: isDubbing && hasTranslatedCues && videoStatus !== 'extracting',
+    lang: getLanguageByCode(videoTargetLang)?.speechCode || videoTargetLang,
+    voiceURI: dubVoices[videoTargetLang] ?? null,
+    rate: speechRate,
+    volume: speechVolume,
+    originalVolume: dubOriginalVolume,
+    waitForSpeech: dubWaitForSpeech,
+  });
+  // <video> and <audio> share the hook's media ref
+  const attachMedia = useCallback((el: HTMLMediaElement | null) => { videoRef.current = el; }, [videoRef]);
 
   // Speech code
   const speechCode = useMemo(() => {
@@ -73,16 +155,17 @@ export function App() {
   const speechCallbacks = useMemo(() => ({
     onInterimResult: (text: string) => setInterimText(text),
     onFinalResult: (text: string) => {
-      setSourceText(prev => prev + (prev ? ' ' : '') + text);
+      // Continuous dictation also takes spoken punctuation and editing commands
+      setSourceText(prev => continuousDictation ? applyDictation(prev, text, speechCode) : prev + (prev ? ' ' : '') + text);
       setInterimText('');
     },
     onError: (error: string) => {
       setAppStatus('error');
       setErrorMsg(error === 'not-allowed' ? 'Mikrofonga ruxsat berilmagan' : `Xato: ${error}`);
     },
-  }), []);
+  }), [continuousDictation, speechCode]);
 
-  const { status: speechStatus, isSupported, startListening, stopListening } = useSpeechRecognition(speechCode, speechCallbacks);
+  const { status: speechStatus, isSupported, startListening, stopListening } = useSpeechRecognition(speechCode, speechCallbacks, { continuous: continuousDictation });
 
   // ===== THEME EFFECT =====
   useEffect(() => {
@@ -90,29 +173,57 @@ export function App() {
     try { localStorage.setItem('sardor_theme', darkMode ? 'dark' : 'light'); } catch { /* */ }
   }, [darkMode]);
 
+  // ===== PROVIDER EFFECT =====
+  useEffect(() => {
+    const t = setTimeout(() => setLibreConfig({ baseUrl: libreUrl, apiKey: libreApiKey }), 600);
+    return () => clearTimeout(t);
+  }, [libreUrl, libreApiKey]);
+
+  useEffect(() => {
+    registerProvider(createLibreTranslateProvider(libreConfig));
+    setActiveProvider(providerId);
+
+    // Languages the active engine can't handle are disabled in the dropdowns
+    let cancelled = false;
+    setSupportedLangs(null);
+    const provider = getActiveProvider();
+    if (provider.id === 'libretranslate' && !isServerUrl(libreConfig.baseUrl)) return;
+    provider.supportedLanguages?.()
+      .then(codes => { if (!cancelled) setSupportedLangs(new Set(codes)); })
+      .catch(err => console.error('[TranslationService] Languages error:', err));
+    return () => { cancelled = true; };
+  }, [providerId, libreConfig]);
+
+  // Refresh cache size whenever settings are opened
+  useEffect(() => {
+    if (showSettings) getCacheStats().then(setCacheStats);
+  }, [showSettings]);
+
   // ===== STATUS EFFECTS =====
   useEffect(() => {
     if (speechStatus === 'listening') setAppStatus('listening');
+    else if (!isOnline) setAppStatus('offline');
     else if (translationStatus === 'translating') setAppStatus('translating');
     else if (translationStatus === 'done') {
       setAppStatus('done');
       const t = setTimeout(() => setAppStatus('idle'), 3000);
       return () => clearTimeout(t);
     } else if (translationStatus === 'error' || speechStatus === 'error') setAppStatus('error');
-  }, [speechStatus, translationStatus]);
+  }, [speechStatus, translationStatus, isOnline]);
 
-  // Auto-translate
+  // Auto-translate; any change cancels the pending request so a stale
+  // response can never overwrite the newer one or land in history
   useEffect(() => {
     if (!sourceText.trim()) return;
     const t = setTimeout(() => handleTranslate(), 500);
-    return () => clearTimeout(t);
+    return () => { clearTimeout(t); cancelTranslation(); };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sourceText, targetLang, sourceLang]);
 
   // Space shortcut
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      if (e.code === 'Space' && e.target === document.body && activeTab === 'voice') {
+      if (e.code === 'Space' && e.target === document.body && activeTab === 'voice' && voiceMode === 'single') {
         e.preventDefault();
         toggleMic();
       }
@@ -120,17 +231,9 @@ export function App() {
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [speechStatus, activeTab]);
-
-  // Save/load settings
-  useEffect(() => {
-    try {
-      localStorage.setItem('sardor_settings', JSON.stringify({
-        sourceLang, targetLang, speechRate, speechVolume, fontSize, dictSourceLang, dictTargetLang
-      }));
-    } catch { /* */ }
-  }, [sourceLang, targetLang, speechRate, speechVolume, fontSize, dictSourceLang, dictTargetLang]);
+  }, [speechStatus, activeTab, voiceMode]);
 
+  // Load settings first so the save effect never clobbers them on mount
   useEffect(() => {
     try {
       const s = localStorage.getItem('sardor_settings');
@@ -140,13 +243,41 @@ export function App() {
         if (p.targetLang) setTargetLang(p.targetLang);
         if (p.speechRate) setSpeechRate(p.speechRate);
         if (p.speechVolume) setSpeechVolume(p.speechVolume);
+        if (typeof p.continuousDictation === 'boolean') setContinuousDictation(p.continuousDictation);
         if (p.fontSize) setFontSize(p.fontSize);
         if (p.dictSourceLang) setDictSourceLang(p.dictSourceLang);
         if (p.dictTargetLang) setDictTargetLang(p.dictTargetLang);
+        if (p.providerId) setProviderId(p.providerId);
+        if (p.libreUrl) setLibreUrl(p.libreUrl);
+        if (p.libreApiKey) setLibreApiKey(p.libreApiKey);
+        if (p.captionMode) setCaptionMode(p.captionMode);
+        if (p.captionSize) setCaptionSize(p.captionSize);
+        if (p.captionLine) setCaptionLine(p.captionLine);
+        if (p.cueConcurrency) setCueConcurrency(p.cueConcurrency);
+        if (p.transcriptionEngine) setTranscriptionEngine(p.transcriptionEngine);
+        if (p.whisperModel) setWhisperModel(p.whisperModel);
+        if (p.dubVoices) setDubVoices(p.dubVoices);
+        if (typeof p.dubOriginalVolume === 'number') setDubOriginalVolume(p.dubOriginalVolume);
+        if (typeof p.dubWaitForSpeech === 'boolean') setDubWaitForSpeech(p.dubWaitForSpeech);
       }
     } catch { /* */ }
   }, []);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('sardor_settings', JSON.stringify({
+        sourceLang, targetLang, speechRate, speechVolume, continuousDictation, fontSize, dictSourceLang, dictTargetLang, providerId,
+        libreUrl, libreApiKey, captionMode, captionSize, captionLine, cueConcurrency,
+        transcriptionEngine, whisperModel, dubVoices, dubOriginalVolume, dubWaitForSpeech
+      }));
+    } catch { /* */ }
+  }, [sourceLang, targetLang, speechRate, speechVolume, continuousDictation, fontSize, dictSourceLang, dictTargetLang, providerId, libreUrl, libreApiKey, captionMode, captionSize, captionLine, cueConcurrency, transcriptionEngine, whisperModel, dubVoices, dubOriginalVolume, dubWaitForSpeech]);
+
+  // Keep the active subtitle visible in the cue list
+  useEffect(() => {
+    if (activeCueId) document.getElementById(`cue-${activeCueId}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeCueId]);
+
   // Close dropdowns
   useEffect(() => {
     const handler = (e: MouseEvent) => {
@@ -166,9 +297,15 @@ export function App() {
 
   const handleTranslate = useCallback(async () => {
     if (!sourceText.trim()) return;
+    // Offline: park the request in the outbox instead of losing it
+    if (!navigator.onLine) {
+      queueTranslation({ sourceText, sourceLang, targetLang });
+      return;
+    }
     const r = await translate(sourceText, sourceLang, targetLang);
     if (r) addToHistory({ sourceText, translatedText: r, sourceLang: detectedLang || sourceLang, targetLang });
-  }, [sourceText, sourceLang, targetLang, translate, addToHistory, detectedLang]);
+    else if (!navigator.onLine) queueTranslation({ sourceText, sourceLang, targetLang });
+  }, [sourceText, sourceLang, targetLang, translate, addToHistory, detectedLang, queueTranslation]);
 
   const speakText = useCallback((text: string, lang: string) => {
     if (!text || !window.speechSynthesis) return;
@@ -198,6 +335,11 @@ export function App() {
     }
   }, []);
 
+  const handleClearCache = useCallback(async () => {
+    await clearCache();
+    setCacheStats(await getCacheStats());
+  }, []);
+
   const clearAll = useCallback(() => {
     setSourceText(''); setInterimText('');
     clearTranslation(); setAppStatus('idle'); setErrorMsg('');
@@ -217,21 +359,79 @@ export function App() {
     setShowHistory(false);
   }, [setTranslatedText]);
 
+  const handleHistoryExport = useCallback(async (format: HistoryFormat) => {
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(`sardor-history-${date}.${format}`, await exportHistory(format), HISTORY_MIME_TYPES[format]);
+    } catch (err) {
+      console.error('[HistoryManager] Export error:', err);
+      setHistoryMessage('❌ Eksport xatosi');
+    }
+  }, [exportHistory]);
+
+  const handleHistoryImport = useCallback(async (file: File) => {
+    try {
+      const added = await importHistory(await file.text(), file.name);
+      setHistoryMessage(`✅ ${added} ta yozuv qo'shildi`);
+    } catch (err) {
+      console.error('[HistoryManager] Import error:', err);
+      setHistoryMessage('❌ Faylni o\'qib bo\'lmadi');
+    }
+    setTimeout(() => setHistoryMessage(''), 4000);
+  }, [importHistory]);
+
   // Dictionary handlers
+  const dueWords = useMemo(
+    () => savedWords.filter(w => isDueToday(w.review)).sort((a, b) => a.review.due - b.review.due),
+    [savedWords]
+  );
+
   const handleDictSearch = useCallback(() => {
     if (dictQuery.trim()) searchWord(dictQuery.trim(), dictSourceLang, dictTargetLang);
   }, [dictQuery, dictSourceLang, dictTargetLang, searchWord]);
 
+  const handleAnkiExport = useCallback(() => {
+    const tsv = toAnkiTsv(savedWords, { sourceLang: dictSourceLang, targetLang: dictTargetLang });
+    downloadFile(`sardor-words-${dictSourceLang}-${dictTargetLang}.txt`, tsv, 'text/tab-separated-values');
+  }, [savedWords, dictSourceLang, dictTargetLang]);
+
+  const handleWordsImport = useCallback(async (file: File) => {
+    try {
+      const added = importWords(parseWordList(await file.text(), file.name), dictSourceLang, dictTargetLang);
+      setWordsMessage(`✅ ${added} ta so'z qo'shildi`);
+    } catch (err) {
+      console.error('[Dictionary] Import error:', err);
+      setWordsMessage('❌ Faylni o\'qib bo\'lmadi');
+    }
+    setTimeout(() => setWordsMessage(''), 4000);
+  }, [importWords, dictSourceLang, dictTargetLang]);
+
   // Video handlers
   const handleVideoFile = useCallback((file: File) => {
-    loadVideo(file);
-  }, [loadVideo]);
+    if (isSubtitleFile(file)) loadSubtitles(file);
+    else loadVideo(file);
+  }, [loadVideo, loadSubtitles]);
+
+  /** Transcribe with the chosen engine, from `from` seconds on */
+  const startTranscription = useCallback((from = 0) => {
+    const options = { concurrency: cueConcurrency };
+    if (transcriptionEngine === 'whisper') transcribeOffline(videoSourceLang, videoTargetLang, { ...options, model: whisperModel }, from);
+    else extractAndTranscribe(videoSourceLang, videoTargetLang, options, from);
+  }, [transcriptionEngine, whisperModel, cueConcurrency, videoSourceLang, videoTargetLang, transcribeOffline, extractAndTranscribe]);
+
+  const handleSubtitleExport = useCallback((format: SubtitleFormat) => {
+    const base = videoName.replace(/\.[^.]+$/, '') || 'subtitles';
+    const suffix = subtitleTrack === 'original' ? videoSourceLang
+      : subtitleTrack === 'translated' ? videoTargetLang
+      : `${videoSourceLang}-${videoTargetLang}`;
+    downloadFile(`${base}.${suffix}.${format}`, serializeSubtitles(subtitles, format, subtitleTrack), SUBTITLE_MIME_TYPES[format]);
+  }, [subtitles, subtitleTrack, videoName, videoSourceLang, videoTargetLang]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    const file = e.dataTransfer.files[0];
-    if (file) handleVideoFile(file);
+    // A video and its subtitle file can be dropped together
+    Array.from(e.dataTransfer.files).forEach(handleVideoFile);
   }, [handleVideoFile]);
 
   // (filtered langs handled inside renderLangDropdown)
@@ -248,7 +448,9 @@ export function App() {
       translating: (
         <div className="flex items-center gap-2 animate-fade-in-up">
           <div className="w-4 h-4 border-2 border-warning border-t-transparent rounded-full animate-spin-slow" />
-          <span className="text-warning text-sm font-medium">⚡ Tarjima qilyapman...</span>
+          <span className="text-warning text-sm font-medium">
+            ⚡ Tarjima qilyapman...{translationProgress > 0 && translationProgress < 1 && ` ${Math.round(translationProgress * 100)}%`}
+          </span>
         </div>
       ),
       done: (
@@ -262,15 +464,43 @@ export function App() {
           <span className="text-danger text-sm font-medium">❌ {errorMsg || 'Xato yuz berdi'}</span>
         </div>
       ),
+      offline: (
+        <div className="flex items-center gap-2 animate-fade-in-up">
+          <span className="status-dot status-dot-error" />
+          <span className="text-warning text-sm font-medium">
+            📴 Internet yo'q{outboxItems.length > 0 ? ` — ${outboxItems.length} ta tarjima navbatda` : '. Tarjimalar navbatga qo\'yiladi'}
+          </span>
+        </div>
+      ),
       idle: (
         <div className="flex items-center gap-2">
-          <span className="text-base-muted text-sm">Tayyor. Mikrofon bosing yoki matn yozing.</span>
+          <span className="text-base-muted text-sm">
+            {isReplaying ? '🔄 Navbatdagi tarjimalar yuborilmoqda...' : 'Tayyor. Mikrofon bosing yoki matn yozing.'}
+          </span>
+          {failedOutboxItems.length > 0 && (
+            <span className="flex items-center gap-1 text-warning text-xs" title={failedOutboxItems[0].lastError}>
+              ⚠️ {failedOutboxItems.length} ta navbatdagi tarjima yuborilmadi
+              <button onClick={retryFailedOutbox} className="px-1.5 py-0.5 rounded bg-hover">🔄 Qayta</button>
+              <button onClick={discardFailedOutbox} className="px-1.5 py-0.5 rounded bg-hover hover:text-danger">🗑</button>
+            </span>
+          )}
         </div>
       ),
     };
     return statuses[appStatus];
   };
 
+  const renderVoiceModeSwitch = () => (
+    <div className="flex justify-center gap-1 mb-4 text-xs">
+      {([['single', '🎙 Yakka'], ['conversation', '💬 Suhbat']] as const).map(([mode, label]) => (
+        <button key={mode} onClick={() => { stopListening(); setVoiceMode(mode); }}
+          className={`px-3 py-1.5 rounded-full transition-all ${voiceMode === mode ? 'bg-primary/20 text-primary font-medium' : 'glass bg-hover text-base-secondary'}`}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
   const renderVisualizer = () => (
     <div className="flex items-center gap-[3px] h-8">
       {Array.from({ length: 7 }).map((_, i) => (
@@ -319,19 +549,23 @@ export function App() {
               />
             </div>
             <div className="overflow-y-auto flex-1">
-              {filtered.map(lang => (
-                <button key={lang.code}
-                  onClick={() => { onChange(lang.code); setIsOpen(false); setSearch(''); }}
-                  className={`w-full px-3 py-2 flex items-center gap-2 bg-hover transition-colors text-left ${value === lang.code ? 'bg-primary/20' : ''}`}
-                >
-                  <span className="text-base">{lang.flag}</span>
-                  <div className="flex-1 min-w-0">
-                    <span className="text-base-primary text-sm">{lang.name}</span>
-                    <span className="text-base-muted text-xs ml-1">({lang.nativeName})</span>
-                  </div>
-                  {value === lang.code && <span className="text-primary text-sm">✓</span>}
-                </button>
-              ))}
+              {filtered.map(lang => {
+                const unsupported = !!supportedLangs && lang.code !== 'auto' && !supportedLangs.has(lang.code);
+                return (
+                  <button key={lang.code} disabled={unsupported}
+                    onClick={() => { onChange(lang.code); setIsOpen(false); setSearch(''); }}
+                    className={`w-full px-3 py-2 flex items-center gap-2 bg-hover transition-colors text-left disabled:opacity-40 disabled:cursor-not-allowed ${value === lang.code ? 'bg-primary/20' : ''}`}
+                    title={unsupported ? 'Tarjima xizmati bu tilni qo\'llab-quvvatlamaydi' : undefined}
+                  >
+                    <span className="text-base">{lang.flag}</span>
+                    <div className="flex-1 min-w-0">
+                      <span className="text-base-primary text-sm">{lang.name}</span>
+                      <span className="text-base-muted text-xs ml-1">({lang.nativeName})</span>
+                    </div>
+                    {value === lang.code && <span className="text-primary text-sm">✓</span>}
+                  </button>
+                );
+              })}
             </div>
           </div>
         )}
@@ -383,8 +617,8 @@ export function App() {
             <svg className="w-4 h-4 text-base-secondary" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
               <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            {history.length > 0 && (
-              <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-primary text-[9px] text-white flex items-center justify-center font-bold">{history.length}</span>
+            {historyCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-0.5 rounded-full bg-primary text-[9px] text-white flex items-center justify-center font-bold">{historyCount > 99 ? '99+' : historyCount}</span>
             )}
           </button>
         </div>
@@ -408,6 +642,65 @@ export function App() {
                 <label className="text-base-muted text-xs block mb-1">Matn o'lchami: {fontSize}px</label>
                 <input type="range" min="12" max="24" step="1" value={fontSize} onChange={e => setFontSize(parseInt(e.target.value))} className="w-full h-1" />
               </div>
+              <div>
+                <label className="text-base-muted text-xs block mb-1">Tarjima xizmati</label>
+                <select value={providerId} onChange={e => setProviderId(e.target.value)}
+                  className="w-full glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none focus:ring-1 focus:ring-primary cursor-pointer">
+                  {listProviders().map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-base-muted text-xs block mb-1">Subtitr so'rovlari bir vaqtda: {cueConcurrency}</label>
+                <input type="range" min="1" max="8" step="1" value={cueConcurrency} onChange={e => setCueConcurrency(parseInt(e.target.value))} className="w-full h-1" />
+              </div>
+              <div>
+                <label className="text-base-muted text-xs block mb-1">Oflayn ovoz tanish modeli</label>
+                <select value={whisperModel} onChange={e => setWhisperModel(e.target.value)}
+                  className="w-full glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none focus:ring-1 focus:ring-primary cursor-pointer">
+                  {WHISPER_MODELS.map(m => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+                <p className="text-base-hint text-[10px] mt-1">Birinchi marta internetdan yuklab olinadi, keyin oflayn ishlaydi</p>
+              </div>
+            </div>
+            {providerId === 'libretranslate' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+                <div>
+                  <label className="text-base-muted text-xs block mb-1">Server manzili</label>
+                  <input type="url" value={libreUrl} onChange={e => setLibreUrl(e.target.value)} placeholder="https://translate.example.com"
+                    className="w-full bg-input rounded-lg px-3 py-1.5 text-base-primary text-xs placeholder:text-base-hint focus:outline-none focus:ring-1 focus:ring-primary" />
+                  {libreUrl.trim() && !isServerUrl(libreUrl) && <p className="text-danger text-[10px] mt-1">http:// yoki https:// manzil kiriting</p>}
+                </div>
+                <div>
+                  <label className="text-base-muted text-xs block mb-1">API kalit (ixtiyoriy)</label>
+                  <input type="password" value={libreApiKey} onChange={e => setLibreApiKey(e.target.value)} placeholder="••••••••"
+                    className="w-full bg-input rounded-lg px-3 py-1.5 text-base-primary text-xs placeholder:text-base-hint focus:outline-none focus:ring-1 focus:ring-primary" />
+                </div>
+              </div>
+            )}
+            <div className="flex items-center justify-between mt-4 pt-3 border-t border-white/5">
+              <span className="text-base-muted text-xs">
+                💾 Tarjima keshi: {cacheStats ? `${cacheStats.entries} ta • ${(cacheStats.bytes / 1024).toFixed(1)} KB` : '...'}
+              </span>
+              <button onClick={handleClearCache} disabled={!cacheStats?.entries}
+                className="text-danger text-xs bg-hover px-2 py-1 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed">
+                🗑 Keshni tozalash
+              </button>
+            </div>
+            <div className="flex items-center justify-between mt-3">
+              <span className="text-base-muted text-xs">📘 Glossariy: tarjima qilinmaydigan nomlar va atamalar</span>
+              <button onClick={() => setShowGlossary(true)} className="text-primary text-xs bg-hover px-2 py-1 rounded-lg glass transition-all">
+                Tahrirlash
+              </button>
+            </div>
+            <div className="flex items-center justify-between mt-3">
+              <span className="text-base-muted text-xs">📦 Oflayn lug'atlar: JSON paket fayllarini import qiling</span>
+              <button onClick={() => setShowDictPacks(true)} className="text-primary text-xs bg-hover px-2 py-1 rounded-lg glass transition-all">
+                Boshqarish
+              </button>
             </div>
           </div>
         </div>
@@ -441,8 +734,10 @@ export function App() {
         <div className="w-full max-w-3xl">
 
           {/* ==================== VOICE TAB ==================== */}
-          {activeTab === 'voice' && (
+          {activeTab === 'voice' && voiceMode === 'single' && (
             <div className="glass-strong rounded-3xl p-4 md:p-6 animate-fade-in-up">
+              {renderVoiceModeSwitch()}
+
               {/* Language Selector */}
               <div className="flex items-center gap-2 md:gap-4 mb-5">
                 {renderLangDropdown(sourceLang, setSourceLang, true, 'source-dd', showSourceDropdown, setShowSourceDropdown, sourceSearch, setSourceSearch)}
@@ -491,6 +786,12 @@ export function App() {
                 </div>
                 {!isSupported && <p className="text-danger text-xs mt-2 text-center">⚠️ Brauzeringiz qo'llab-quvvatlamaydi. Chrome ishlating.</p>}
                 <p className="text-base-hint text-[10px] mt-2">Space — mikrofon yoqish/o'chirish</p>
+                <label className="flex items-center gap-1.5 mt-2 text-xs text-base-secondary cursor-pointer"
+                  title="Pauzalarda to'xtamaydi. Buyruqlar: vergul, nuqta, yangi qator, yangi xatboshi, oxirgi so'zni o'chir (comma, new line, delete last word...)">
+                  <input type="checkbox" checked={continuousDictation}
+                    onChange={e => { stopListening(); setContinuousDictation(e.target.checked); }} />
+                  ♾ Uzluksiz diktovka
+                </label>
               </div>
 
               {/* Text Areas */}
@@ -501,7 +802,7 @@ export function App() {
                     <span className="text-base-hint text-[10px]">{sourceText.length} belgi</span>
                   </div>
                   <div ref={sourceRef} className="text-display flex-1 min-h-[100px] max-h-[160px] overflow-y-auto" style={{ fontSize: `${fontSize}px` }}>
-                    {sourceText && <span className="text-base-primary leading-relaxed">{sourceText}</span>}
+                    {sourceText && <span className="text-base-primary leading-relaxed whitespace-pre-wrap">{sourceText}</span>}
                     {interimText && <span className="text-base-muted italic leading-relaxed"> {interimText}</span>}
                     {!sourceText && !interimText && <span className="text-base-hint italic">Mikrofon bosing yoki matn yozing...</span>}
                   </div>
@@ -519,9 +820,12 @@ export function App() {
                       <div className="flex items-center gap-2 text-base-muted">
                         <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin-slow" />
                         <span className="italic text-sm">Tarjima qilinmoqda...</span>
+                        {translationProgress > 0 && translationProgress < 1 && (
+                          <span className="text-primary text-xs font-mono">{Math.round(translationProgress * 100)}%</span>
+                        )}
                       </div>
                     ) : translatedText ? (
-                      <span className="text-base-primary leading-relaxed animate-fade-in-up">{translatedText}</span>
+                      <span className="text-base-primary leading-relaxed whitespace-pre-wrap animate-fade-in-up">{translatedText}</span>
                     ) : (
                       <span className="text-base-hint italic">Tarjima bu yerda paydo bo'ladi...</span>
                     )}
@@ -551,6 +855,14 @@ export function App() {
             </div>
           )}
 
+          {/* Face-to-face conversation */}
+          {activeTab === 'voice' && voiceMode === 'conversation' && (
+            <div className="glass-strong rounded-3xl p-4 md:p-6 animate-fade-in-up">
+              {renderVoiceModeSwitch()}
+              <ConversationPanel initialLangA={sourceLang} initialLangB={targetLang} speak={speakText} onSave={addToHistory} />
+            </div>
+          )}
+
           {/* ==================== DICTIONARY TAB ==================== */}
           {activeTab === 'dictionary' && (
             <div className="glass-strong rounded-3xl p-4 md:p-6 animate-fade-in-up">
@@ -617,31 +929,36 @@ export function App() {
                     <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
                   </svg>
                 </button>
+                <button onClick={() => setStudyCards(dueWords)} disabled={dueWords.length === 0 || !!studyCards}
+                  className="flex items-center gap-2 text-sm text-primary bg-hover px-3 py-1.5 rounded-lg glass transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Bugun takrorlanadigan so'zlar">
+                  <span>🧠</span>
+                  <span>Takrorlash ({dueWords.length})</span>
+                </button>
               </div>
 
+              {/* Study session */}
+              {studyCards && (
+                <StudyPanel cards={studyCards} onReview={(card, grade) => reviewWord(card.id, grade)}
+                  onSpeak={card => speakText(card.word, card.sourceLang)}
+                  onClose={() => setStudyCards(null)} />
+              )}
+
               {/* Saved Words Panel */}
               {showSavedWords && (
                 <div className="mb-4 animate-fade-in-down">
-                  <div className="glass-card rounded-xl p-3 max-h-[200px] overflow-y-auto">
-                    {savedWords.length === 0 ? (
-                      <p className="text-center text-base-muted text-xs py-4">Hali saqlangan so'z yo'q. ⭐ tugmasini bosing.</p>
-                    ) : (
-                      <div className="space-y-2">
-                        {savedWords.map((w, i) => (
-                          <div key={i} className="flex items-center justify-between glass rounded-lg px-3 py-2 dict-entry">
-                            <div className="flex-1">
-                              <span className="text-base-primary text-sm font-medium">{w.word}</span>
-                              <span className="text-primary text-sm ml-2">→ {w.translation}</span>
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <button onClick={() => speakText(w.word, dictSourceLang)} className="p-1 text-xs bg-hover rounded">🔊</button>
-                              <button onClick={() => removeWord(w.word)} className="p-1 text-xs text-danger bg-hover rounded">✕</button>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+                  <div className="flex items-center justify-end gap-1 mb-2 text-[10px]">
+                    {wordsMessage && <span className="text-base-muted mr-auto">{wordsMessage}</span>}
+                    <button onClick={handleAnkiExport} disabled={savedWords.length === 0}
+                      className="px-2 py-1 rounded-lg glass bg-hover text-base-secondary disabled:opacity-30 disabled:cursor-not-allowed" title="Anki uchun TSV">📤 Anki</button>
+                    <input ref={wordsImportRef} type="file" accept=".txt,.tsv,.csv" className="hidden"
+                      onChange={e => { const f = e.target.files?.[0]; if (f) handleWordsImport(f); e.target.value = ''; }} />
+                    <button onClick={() => wordsImportRef.current?.click()}
+                      className="px-2 py-1 rounded-lg glass bg-hover text-base-secondary" title="Anki TSV yoki CSV ro'yxat">📥 Import</button>
                   </div>
+                  <VocabularyPanel words={savedWords} decks={decks} allTags={allTags}
+                    onUpdate={updateWord} onRemove={removeWord} onAddDeck={addDeck} onRemoveDeck={removeDeck}
+                    onSpeak={w => speakText(w.word, w.sourceLang)} />
                 </div>
               )}
 
@@ -680,21 +997,24 @@ export function App() {
                             {entry.partOfSpeech && (
                               <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-[10px] font-medium">{entry.partOfSpeech}</span>
                             )}
+                            {entry.pack && (
+                              <span className="px-2 py-0.5 rounded-full glass text-base-muted text-[10px]" title="Oflayn lug'at paketi">📦 {entry.pack}</span>
+                            )}
                           </div>
                           <p className="text-primary text-base font-semibold mt-1">→ {entry.translation}</p>
                         </div>
                         <div className="flex items-center gap-1 ml-2">
-                          <button onClick={() => speakText(entry.word, dictSourceLang)}
+                          <button onClick={() => speakText(entry.word, dictResult.sourceLang)}
                             className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-sm" title="Talaffuz">
                             🔊
                           </button>
-                          <button onClick={() => speakText(entry.translation, dictTargetLang)}
+                          <button onClick={() => speakText(entry.translation, dictResult.targetLang)}
                             className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-sm" title="Tarjima talaffuzi">
                             🗣
                           </button>
-                          <button onClick={() => saveWord(entry)}
-                            className={`w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-sm ${savedWords.some(w => w.word === entry.word) ? 'text-yellow-400' : ''}`} title="Saqlash">
-                            {savedWords.some(w => w.word === entry.word) ? '⭐' : '☆'}
+                          <button onClick={() => saveWord(entry, dictResult.sourceLang, dictResult.targetLang)}
+                            className={`w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-sm ${isSaved(entry, dictResult.sourceLang, dictResult.targetLang) ? 'text-yellow-400' : ''}`} title="Saqlash">
+                            {isSaved(entry, dictResult.sourceLang, dictResult.targetLang) ? '⭐' : '☆'}
                           </button>
                           <button onClick={() => copyText(entry.translation)}
                             className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-sm" title="Nusxa">
@@ -703,8 +1023,14 @@ export function App() {
                         </div>
                       </div>
 
+                      {/* Senses from the English dictionary */}
+                      {entry.senses && (
+                        <DictEntryDetails phonetics={entry.phonetics} senses={entry.senses}
+                          onWordClick={w => { setDictQuery(w); searchWord(w, dictSourceLang, dictTargetLang); }} />
+                      )}
+
                       {/* Examples */}
-                      {entry.examples && entry.examples.length > 0 && (
+                      {!entry.senses && entry.examples && entry.examples.length > 0 && (
                         <div className="mt-3 space-y-1">
                           <p className="text-base-muted text-xs font-semibold uppercase">Misollar:</p>
                           {entry.examples.map((ex, j) => (
@@ -714,7 +1040,7 @@ export function App() {
                       )}
 
                       {/* Synonyms */}
-                      {entry.synonyms && entry.synonyms.length > 0 && (
+                      {!entry.senses && entry.synonyms && entry.synonyms.length > 0 && (
                         <div className="mt-3">
                           <p className="text-base-muted text-xs font-semibold uppercase mb-1">Sinonimlar:</p>
                           <div className="flex flex-wrap gap-1">
@@ -779,7 +1105,7 @@ export function App() {
               </div>
 
               {/* Upload Area */}
-              {!videoUrl && (
+              {!videoUrl && !subtitleFile && (
                 <div
                   className={`drop-zone rounded-2xl p-8 text-center cursor-pointer transition-all ${isDragOver ? 'drag-over' : ''}`}
                   onDragOver={e => { e.preventDefault(); setIsDragOver(true); }}
@@ -787,41 +1113,144 @@ export function App() {
                   onDrop={handleDrop}
                   onClick={() => fileInputRef.current?.click()}
                 >
-                  <input ref={fileInputRef} type="file" accept="video/*" className="hidden"
-                    onChange={e => { const f = e.target.files?.[0]; if (f) handleVideoFile(f); }} />
+                  <input ref={fileInputRef} type="file" accept={`${MEDIA_ACCEPT},.srt,.vtt`} multiple className="hidden"
+                    onChange={e => { Array.from(e.target.files ?? []).forEach(handleVideoFile); e.target.value = ''; }} />
                   
                   <div className={`text-5xl mb-3 ${isDragOver ? 'animate-bounce-subtle' : ''}`}>
                     {isDragOver ? '📥' : '🎬'}
                   </div>
                   <p className="text-base-primary text-sm font-medium mb-1">
-                    {isDragOver ? 'Qo\'yib yuboring!' : 'Video faylni bu yerga tashlang'}
+                    {isDragOver ? 'Qo\'yib yuboring!' : 'Video, audio yoki subtitr faylini bu yerga tashlang'}
                   </p>
                   <p className="text-base-muted text-xs mb-3">yoki bosib tanlang</p>
                   <div className="flex items-center justify-center gap-2 flex-wrap">
                     <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">MP4</span>
                     <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">WebM</span>
+                    <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">MP3</span>
+                    <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">M4A</span>
                     <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">OGG</span>
-                    <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">Max 100MB</span>
+                    <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">SRT</span>
+                    <span className="px-2 py-0.5 rounded-full glass text-[10px] text-base-muted">VTT</span>
                   </div>
                 </div>
               )}
 
+              {!videoUrl && !subtitleFile && videoStatus === 'error' && videoError && (
+                <div className="glass-card rounded-xl p-3 mt-3 border-l-4 border-danger animate-shake">
+                  <p className="text-danger text-sm">❌ {videoError}</p>
+                </div>
+              )}
+
               {/* Video Player */}
-              {videoUrl && (
+              {(videoUrl || subtitleFile) && (
                 <div className="space-y-4">
-                  <div className="video-container glass-card rounded-2xl overflow-hidden">
-                    <video ref={videoRef} src={videoUrl} controls className="w-full max-h-[300px]" />
-                  </div>
+                  {videoUrl && mediaKind === 'audio' && (
+                    <div className="glass-card rounded-2xl p-4 space-y-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className="text-3xl">🎧</span>
+                        <span className="text-base-primary text-sm font-medium truncate">{videoName}</span>
+                      </div>
+                      <audio ref={attachMedia} src={videoUrl} controls className="w-full" />
+                      {/* Audio has no picture to draw captions on, so the active cue is shown here */}
+                      {captionMode !== 'off' && subtitles.length > 0 && (
+                        <div className="glass rounded-xl px-4 py-3 min-h-[3.5rem] text-center whitespace-pre-line text-base-primary leading-snug"
+                          style={{ fontSize: captionSize }}>
+                          {activeCue ? cueText(activeCue, captionMode) : <span className="text-base-hint text-xs">…</span>}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {videoUrl && mediaKind === 'video' && (
+                    <div className="video-container glass-card rounded-2xl overflow-hidden">
+                      <style>{`.caption-video::cue { font-size: ${captionSize}px; line-height: 1.3; }`}</style>
+                      <video ref={attachMedia} src={videoUrl} controls className="caption-video w-full max-h-[300px]" />
+                    </div>
+                  )}
+
+                  {/* Caption controls */}
+                  {videoUrl && subtitles.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-3 glass rounded-xl px-3 py-2 text-xs">
+                      <select value={captionMode} onChange={e => setCaptionMode(e.target.value as CaptionMode)}
+                        className="glass rounded-lg px-2 py-1 text-base-primary bg-transparent focus:outline-none focus:ring-1 focus:ring-primary appearance-none cursor-pointer">
+                        <option value="off">💬 Subtitrsiz</option>
+                        {CAPTION_TRACKS.map(({ track, label }) => <option key={track} value={track}>💬 {label}</option>)}
+                      </select>
+                      <label className="flex items-center gap-2 text-base-muted">
+                        Hajm
+                        <input type="range" min="12" max="36" step="1" value={captionSize} onChange={e => setCaptionSize(parseInt(e.target.value))} className="w-20 h-1" />
+                      </label>
+                      {mediaKind === 'video' && (
+                        <label className="flex items-center gap-2 text-base-muted">
+                          Joylashuv
+                          <input type="range" min="5" max="95" step="5" value={captionLine} onChange={e => setCaptionLine(parseInt(e.target.value))} className="w-20 h-1" title="Yuqoridan pastga" />
+                        </label>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Dubbing controls */}
+                  {videoUrl && hasTranslatedCues && (
+                    <div className="flex flex-wrap items-center gap-3 glass rounded-xl px-3 py-2 text-xs">
+                      <button onClick={() => setIsDubbing(!isDubbing)} disabled={videoStatus === 'extracting'}
+                        className={`px-2.5 py-1 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isDubbing ? 'bg-primary/20 text-primary font-medium' : 'glass bg-hover text-base-secondary'}`}
+                        title="Tarjimani video bilan birga ovoz chiqarib o'qish">
+                        🗣 Dublyaj
+                      </button>
+                      {isDubbing && (
+                        <>
+                          {dubVoiceOptions.length > 0 ? (
+                            <select value={dubVoices[videoTargetLang] ?? ''}
+                              onChange={e => setDubVoices(prev => ({ ...prev, [videoTargetLang]: e.target.value }))}
+                              className="glass rounded-lg px-2 py-1 text-base-primary bg-transparent focus:outline-none focus:ring-1 focus:ring-primary cursor-pointer max-w-[180px]">
+                              <option value="">Standart ovoz</option>
+                              {dubVoiceOptions.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+                            </select>
+                          ) : (
+                            <span className="text-base-hint" title="Tizim sozlamalaridan ovoz o'rnatish mumkin">
+                              {getLanguageByCode(videoTargetLang)?.flag} uchun ovoz topilmadi — standart ovoz
+                            </span>
+                          )}
+                          <label className="flex items-center gap-2 text-base-muted">
+                            Asl ovoz
+                            <input type="range" min="0" max="1" step="0.05" value={dubOriginalVolume} onChange={e => setDubOriginalVolume(parseFloat(e.target.value))} className="w-20 h-1" />
+                          </label>
+                          <label className="flex items-center gap-1.5 text-base-muted cursor-pointer" title="Tarjima uzun bo'lsa, video uni kutib turadi">
+                            <input type="checkbox" checked={dubWaitForSpeech} onChange={e => setDubWaitForSpeech(e.target.checked)} />
+                            Videoni kutish
+                          </label>
+                        </>
+                      )}
+                    </div>
+                  )}
 
                   {/* File info */}
                   <div className="flex items-center justify-between glass rounded-xl px-3 py-2">
-                    <div className="flex items-center gap-2">
-                      <span>🎬</span>
-                      <span className="text-base-primary text-sm truncate max-w-[200px]">{videoName}</span>
+                    <div className="flex items-center gap-3 min-w-0">
+                      {videoUrl && (
+                        <span className="flex items-center gap-2 min-w-0">
+                          <span>{mediaKind === 'audio' ? '🎧' : '🎬'}</span>
+                          <span className="text-base-primary text-sm truncate max-w-[200px]">{videoName}</span>
+                        </span>
+                      )}
+                      {subtitleFile && (
+                        <span className="flex items-center gap-2 min-w-0">
+                          <span>📝</span>
+                          <span className="text-base-primary text-sm truncate max-w-[200px]">{subtitleFile.name}</span>
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <input ref={fileInputRef} type="file" accept={videoUrl ? '.srt,.vtt' : MEDIA_ACCEPT} className="hidden"
+                        onChange={e => { const f = e.target.files?.[0]; if (f) handleVideoFile(f); e.target.value = ''; }} />
+                      {(!videoUrl || !subtitleFile) && (
+                        <button onClick={() => fileInputRef.current?.click()} className="text-primary text-xs bg-hover px-2 py-1 rounded-lg transition-all">
+                          + {videoUrl ? 'Subtitr' : 'Media'}
+                        </button>
+                      )}
+                      <button onClick={clearVideo} className="text-danger text-xs bg-hover px-2 py-1 rounded-lg transition-all">
+                        ✕ O'chirish
+                      </button>
                     </div>
-                    <button onClick={clearVideo} className="text-danger text-xs bg-hover px-2 py-1 rounded-lg transition-all">
-                      ✕ O'chirish
-                    </button>
                   </div>
 
                   {/* Progress bar */}
@@ -829,7 +1258,10 @@ export function App() {
                     <div className="space-y-2 animate-fade-in-up">
                       <div className="flex items-center justify-between text-xs">
                         <span className="text-base-muted">
-                          {videoStatus === 'extracting' ? '🎙 Ovoz aniqlanmoqda...' : '⚡ Tarjima qilinmoqda...'}
+                          {modelProgress !== null ? `📥 Model yuklanmoqda... ${Math.round(modelProgress * 100)}%`
+                            : videoStatus === 'extracting' ? '🎙 Ovoz aniqlanmoqda...'
+                            : rateLimitedUntil ? '⏸ Xizmat so\'rovlarni chekladi, kutilmoqda...'
+                            : '⚡ Tarjima qilinmoqda...'}
                         </span>
                         <span className="text-primary font-mono">{Math.round(videoProgress)}%</span>
                       </div>
@@ -840,15 +1272,78 @@ export function App() {
                     </div>
                   )}
 
+                  {/* Paused transcription */}
+                  {videoStatus === 'paused' && resumePosition !== null && (
+                    <div className="glass rounded-xl px-3 py-2 text-xs text-base-secondary text-center animate-fade-in-up">
+                      ⏸ Ovoz aniqlash to'xtatildi — <span className="text-primary font-mono">{formatTime(resumePosition)}</span> gacha
+                      aniqlangan {subtitles.length} ta satr saqlandi. Davom ettirish, boshqa joydan boshlash yoki shu holicha tarjima qilish mumkin.
+                    </div>
+                  )}
+
+                  {/* Transcription engine */}
+                  {(videoStatus === 'ready' || videoStatus === 'done' || videoStatus === 'paused') && videoUrl && !subtitleFile && (
+                    <div className="flex items-center justify-center gap-1 text-xs">
+                      <span className="text-base-muted mr-1">Ovoz tanish:</span>
+                      {([['webspeech', '🎙 Brauzer'], ['whisper', '💻 Oflayn (Whisper)']] as const).map(([engine, label]) => (
+                        <button key={engine} onClick={() => setTranscriptionEngine(engine)}
+                          className={`px-2.5 py-1 rounded-lg transition-all ${transcriptionEngine === engine ? 'bg-primary/20 text-primary font-medium' : 'glass bg-hover text-base-secondary'}`}>
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Action buttons */}
                   <div className="flex flex-wrap gap-2 justify-center">
-                    {(videoStatus === 'ready' || videoStatus === 'done') && (
-                      <button onClick={() => extractAndTranscribe(videoSourceLang, videoTargetLang)}
+                    {(videoStatus === 'ready' || videoStatus === 'done') && subtitleFile && (
+                      <button onClick={() => translateSubtitles(videoSourceLang, videoTargetLang, { concurrency: cueConcurrency })}
+                        className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-gradient-to-r from-primary to-secondary text-white font-medium text-sm shadow-lg hover:opacity-90 hover:translate-y-[-1px] transition-all">
+                        <span>📝</span> {videoStatus === 'done' ? 'Qayta tarjima' : 'Subtitrlarni tarjima qilish'}
+                      </button>
+                    )}
+                    {(videoStatus === 'ready' || videoStatus === 'done') && videoUrl && !subtitleFile && (
+                      <button onClick={() => startTranscription()}
                         className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-gradient-to-r from-primary to-secondary text-white font-medium text-sm shadow-lg hover:opacity-90 hover:translate-y-[-1px] transition-all">
                         <span>▶️</span> {videoStatus === 'done' ? 'Qayta tarjima' : 'Tarjimani boshlash'}
                       </button>
                     )}
-                    {(videoStatus === 'extracting' || videoStatus === 'translating') && (
+                    {videoStatus === 'paused' && resumePosition !== null && (
+                      <>
+                        <button onClick={() => startTranscription(resumePosition)}
+                          className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-gradient-to-r from-primary to-secondary text-white font-medium text-sm shadow-lg hover:opacity-90 hover:translate-y-[-1px] transition-all">
+                          <span>▶️</span> Davom ettirish
+                        </button>
+                        <button onClick={() => startTranscription(videoRef.current?.currentTime ?? 0)}
+                          className="flex items-center gap-2 px-4 py-2.5 rounded-xl glass text-base-secondary font-medium text-sm bg-hover transition-all"
+                          title="Pleyerdagi joriy joydan qayta aniqlash">
+                          <span>⏱</span> Joriy joydan
+                        </button>
+                        <button onClick={() => startTranscription(0)}
+                          className="flex items-center gap-2 px-4 py-2.5 rounded-xl glass text-base-secondary font-medium text-sm bg-hover transition-all">
+                          <span>↺</span> Boshidan
+                        </button>
+                      </>
+                    )}
+                    {(videoStatus === 'extracting' || videoStatus === 'paused') && !subtitleFile && (
+                      <button onClick={() => finishTranscription(videoSourceLang, videoTargetLang, { concurrency: cueConcurrency })}
+                        disabled={subtitles.length === 0}
+                        className="flex items-center gap-2 px-4 py-2.5 rounded-xl glass text-primary font-medium text-sm bg-hover transition-all disabled:opacity-40 disabled:cursor-not-allowed">
+                        <span>✅</span> Yakunlash va tarjima
+                      </button>
+                    )}
+                    {videoStatus === 'error' && resumePosition !== null && !subtitleFile && subtitles.length > 0 && (
+                      <button onClick={() => finishTranscription(videoSourceLang, videoTargetLang, { concurrency: cueConcurrency })}
+                        className="flex items-center gap-2 px-4 py-2.5 rounded-xl glass text-primary font-medium text-sm bg-hover transition-all">
+                        <span>🔄</span> Tarjimani qayta urinish
+                      </button>
+                    )}
+                    {videoStatus === 'extracting' && (
+                      <button onClick={stopProcessing}
+                        className="flex items-center gap-2 px-5 py-2.5 rounded-xl glass text-danger font-medium text-sm bg-hover transition-all">
+                        <span>⏸</span> Pauza
+                      </button>
+                    )}
+                    {videoStatus === 'translating' && (
                       <button onClick={stopProcessing}
                         className="flex items-center gap-2 px-5 py-2.5 rounded-xl glass text-danger font-medium text-sm bg-hover transition-all">
                         <span>⏹</span> To'xtatish
@@ -864,13 +1359,24 @@ export function App() {
                   )}
 
                   {/* Info note */}
-                  {videoStatus === 'ready' && (
+                  {videoStatus === 'ready' && !subtitleFile && (
                     <div className="glass-card rounded-xl p-3 border-l-4 border-warning">
-                      <p className="text-base-secondary text-xs">
-                        💡 <strong>Eslatma:</strong> Video ovozi mikrofon orqali aniqlanadi. 
-                        Videoni ovoz chiqarib tinglang va atrofda jim bo'ling. 
-                        Chrome brauzeridan foydalanish tavsiya etiladi.
-                      </p>
+                      {transcriptionEngine === 'whisper' ? (
+                        <p className="text-base-secondary text-xs">
+                          💡 <strong>Eslatma:</strong> Ovoz fayldan to'g'ridan-to'g'ri, qurilmangizda aniqlanadi — hech narsa
+                          ovoz chiqarib ijro etilmaydi. Birinchi ishlatilganda model
+                          ({WHISPER_MODELS.find(m => m.id === whisperModel)?.size})
+                          Hugging Face'dan bir marta yuklab olinadi — buning uchun internet kerak. Keyin u brauzerda
+                          saqlanadi va oflayn ishlaydi.
+                          Uzun videolar protsessorda biroz vaqt oladi.
+                        </p>
+                      ) : (
+                        <p className="text-base-secondary text-xs">
+                          💡 <strong>Eslatma:</strong> Video ovozi mikrofon orqali aniqlanadi. 
+                          Videoni ovoz chiqarib tinglang va atrofda jim bo'ling. 
+                          Chrome brauzeridan foydalanish tavsiya etiladi.
+                        </p>
+                      )}
                     </div>
                   )}
 
@@ -902,7 +1408,7 @@ export function App() {
                           </div>
                         </div>
                         <div className="text-display min-h-[80px] max-h-[200px] overflow-y-auto">
-                          <p className="text-primary text-sm leading-relaxed font-medium">{videoTranslatedText || 'Kutilmoqda...'}</p>
+                          <p className="text-primary text-sm leading-relaxed font-medium whitespace-pre-wrap">{videoTranslatedText || 'Kutilmoqda...'}</p>
                         </div>
                       </div>
                     </div>
@@ -913,23 +1419,61 @@ export function App() {
                     <div className="glass-card rounded-2xl p-4">
                       <div className="flex items-center justify-between mb-3">
                         <h3 className="text-base-primary text-sm font-semibold">📝 Subtitrlar</h3>
-                        <span className="text-base-muted text-xs">{subtitles.length} qism</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-base-muted text-xs">{subtitles.length} qism</span>
+                          {failedCueCount > 0 && videoStatus !== 'translating' && (
+                            <span className="text-danger text-xs" title="Har birini 🔄 bilan qayta urinib ko'ring">⚠️ {failedCueCount} ta xato</span>
+                          )}
+                          <button onClick={() => setIsEditingSubtitles(!isEditingSubtitles)}
+                            disabled={videoStatus === 'extracting' || videoStatus === 'paused' || videoStatus === 'translating'}
+                            className={`text-xs px-2 py-1 rounded-lg glass bg-hover disabled:opacity-30 disabled:cursor-not-allowed ${isEditingSubtitles ? 'text-primary' : 'text-base-secondary'}`}>
+                            {isEditingSubtitles ? '✓ Tayyor' : '✏️ Tahrirlash'}
+                          </button>
+                        </div>
                       </div>
-                      <div className="space-y-2 max-h-[250px] overflow-y-auto text-display">
-                        {subtitles.map((sub) => (
-                          <div key={sub.id} className="glass rounded-xl px-3 py-2 dict-entry">
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="text-secondary text-[10px] font-mono bg-secondary/10 px-1.5 py-0.5 rounded">
-                                {formatTime(sub.startTime)} → {formatTime(sub.endTime)}
-                              </span>
-                            </div>
-                            <p className="text-base-primary text-xs">{sub.originalText}</p>
-                            {sub.translatedText && (
-                              <p className="text-primary text-xs mt-0.5 font-medium">→ {sub.translatedText}</p>
-                            )}
-                          </div>
+                      <div className="flex items-center justify-end gap-1 mb-3 text-[10px]">
+                        <select value={subtitleTrack} onChange={e => setSubtitleTrack(e.target.value as SubtitleTrack)}
+                          className="glass rounded-lg px-2 py-1 text-base-primary bg-transparent focus:outline-none focus:ring-1 focus:ring-primary appearance-none cursor-pointer mr-auto">
+                          <option value="original">Faqat asl matn</option>
+                          <option value="translated">Faqat tarjima</option>
+                          <option value="bilingual">Ikki tilli</option>
+                        </select>
+                        {(['srt', 'vtt'] as const).map(f => (
+                          <button key={f} onClick={() => handleSubtitleExport(f)} disabled={videoStatus !== 'done' && subtitleTrack !== 'original'}
+                            className={`px-2 py-1 rounded-lg glass bg-hover uppercase disabled:opacity-30 disabled:cursor-not-allowed ${subtitleFile?.format === f ? 'text-primary font-semibold' : 'text-base-secondary'}`}>📤 {f}</button>
                         ))}
                       </div>
+                      {isEditingSubtitles && videoStatus !== 'extracting' && videoStatus !== 'paused' && videoStatus !== 'translating' ? (
+                        <SubtitleEditor subtitles={subtitles} onChange={setSubtitles}
+                          sourceLang={videoSourceLang} targetLang={videoTargetLang} activeCueId={activeCueId}
+                          onSeek={time => { if (videoRef.current) videoRef.current.currentTime = time; }} />
+                      ) : (
+                        <div className="space-y-2 max-h-[250px] overflow-y-auto text-display">
+                          {subtitles.map((sub) => (
+                            <div key={sub.id} id={`cue-${sub.id}`}
+                              onClick={() => { if (videoRef.current) videoRef.current.currentTime = sub.startTime; }}
+                              className={`glass rounded-xl px-3 py-2 dict-entry cursor-pointer transition-all ${sub.id === activeCueId ? 'ring-1 ring-primary bg-primary/10' : ''}`}>
+                              <div className="flex items-center gap-2 mb-1">
+                                <span className="text-secondary text-[10px] font-mono bg-secondary/10 px-1.5 py-0.5 rounded">
+                                  {formatTime(sub.startTime)} → {formatTime(sub.endTime)}
+                                </span>
+                                {sub.id === speakingCueId && <span className="text-[10px]" title="O'qilmoqda">🗣</span>}
+                              </div>
+                              <p className="text-base-primary text-xs">{sub.originalText}</p>
+                              {sub.translatedText && (
+                                <p className="text-primary text-xs mt-0.5 font-medium">→ {sub.translatedText}</p>
+                              )}
+                              {sub.translationFailed && (
+                                <div className="flex items-center gap-2 mt-0.5">
+                                  <span className="text-danger text-[10px]">⚠️ Tarjima qilinmadi</span>
+                                  <button onClick={e => { e.stopPropagation(); retryCue(sub.id, videoSourceLang, videoTargetLang); }}
+                                    className="px-1.5 py-0.5 rounded glass bg-hover text-[10px] text-base-secondary">🔄 Qayta</button>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -961,6 +1505,14 @@ export function App() {
         <p className="text-base-hint text-[10px]">© 2025 Sardor Ovozli Tarjimon — Temurbek Gulboyev tomonidan yaratildi</p>
       </footer>
 
+      {/* ===== GLOSSARY PANEL ===== */}
+      {showGlossary && (
+        <GlossaryPanel initialSourceLang={sourceLang} initialTargetLang={targetLang} onClose={() => setShowGlossary(false)} />
+      )}
+
+      {/* ===== DICTIONARY PACKS PANEL ===== */}
+      {showDictPacks && <DictPacksPanel onClose={() => setShowDictPacks(false)} />}
+
       {/* ===== HISTORY PANEL ===== */}
       {showHistory && (
         <>
@@ -975,7 +1527,7 @@ export function App() {
                   Tarjima tarixi
                 </h3>
                 <div className="flex items-center gap-2">
-                  {history.length > 0 && <button onClick={clearHistory} className="text-danger text-xs hover:underline">Tozalash</button>}
+                  {historyCount > 0 && <button onClick={clearHistory} className="text-danger text-xs hover:underline" title="Qadalganlar saqlanadi">Tozalash</button>}
                   <button onClick={() => setShowHistory(false)} className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover">
                     <svg className="w-4 h-4 text-base-muted" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                       <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
@@ -983,17 +1535,61 @@ export function App() {
                   </button>
                 </div>
               </div>
+
+              {/* Search & filters */}
+              <div className="px-4 pt-3 space-y-2">
+                <input type="text" value={historyFilters.search || ''} placeholder="🔍 Tarixdan qidirish..."
+                  onChange={e => setHistoryFilters({ ...historyFilters, search: e.target.value })}
+                  className="w-full bg-input rounded-lg px-3 py-2 text-base-primary text-sm placeholder:text-base-muted focus:outline-none focus:ring-1 focus:ring-primary" />
+                <div className="flex items-center gap-1">
+                  <select value={historyFilters.sourceLang || ''} onChange={e => setHistoryFilters({ ...historyFilters, sourceLang: e.target.value || undefined })}
+                    className="flex-1 glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none cursor-pointer">
+                    <option value="">Barcha tillar</option>
+                    {getTargetLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                  </select>
+                  <span className="text-base-muted text-xs">→</span>
+                  <select value={historyFilters.targetLang || ''} onChange={e => setHistoryFilters({ ...historyFilters, targetLang: e.target.value || undefined })}
+                    className="flex-1 glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none cursor-pointer">
+                    <option value="">Barcha tillar</option>
+                    {getTargetLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center gap-1">
+                  <input type="date" value={historyFilters.from ? toDateInput(historyFilters.from) : ''}
+                    onChange={e => setHistoryFilters({ ...historyFilters, from: e.target.value ? new Date(`${e.target.value}T00:00:00`).getTime() : undefined })}
+                    className="flex-1 glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none" />
+                  <span className="text-base-muted text-xs">—</span>
+                  <input type="date" value={historyFilters.to ? toDateInput(historyFilters.to) : ''}
+                    onChange={e => setHistoryFilters({ ...historyFilters, to: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).getTime() : undefined })}
+                    className="flex-1 glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none" />
+                </div>
+              </div>
+
+              {/* Export / import */}
+              <div className="px-4 pt-2 flex items-center gap-1 text-[10px]">
+                <span className="text-base-muted mr-1">📤</span>
+                {(['json', 'csv', 'tmx'] as HistoryFormat[]).map(format => (
+                  <button key={format} onClick={() => handleHistoryExport(format)} disabled={historyCount === 0}
+                    className="px-2 py-1 rounded-lg glass bg-hover text-base-secondary uppercase disabled:opacity-30 disabled:cursor-not-allowed">{format}</button>
+                ))}
+                <input ref={historyImportRef} type="file" accept=".json,.csv,.tmx" className="hidden"
+                  onChange={e => { const f = e.target.files?.[0]; if (f) handleHistoryImport(f); e.target.value = ''; }} />
+                <button onClick={() => historyImportRef.current?.click()} className="ml-auto px-2 py-1 rounded-lg glass bg-hover text-base-secondary">📥 Import</button>
+              </div>
+              {historyMessage && <p className="px-4 pt-1 text-[10px] text-base-muted">{historyMessage}</p>}
+
               <div className="flex-1 overflow-y-auto p-4 space-y-3">
                 {history.length === 0 ? (
                   <div className="text-center text-base-muted py-16">
                     <p className="text-4xl mb-3">📋</p>
-                    <p className="text-sm">Hali tarjima yo'q</p>
+                    <p className="text-sm">{historyCount > 0 ? 'Hech narsa topilmadi' : 'Hali tarjima yo\'q'}</p>
                     <p className="text-xs text-base-hint mt-1">Tarjimalar avtomatik saqlanadi</p>
                   </div>
                 ) : (
                   history.map(item => (
-                    <button key={item.id} onClick={() => loadFromHistory(item)}
-                      className="w-full glass-card rounded-xl p-3 text-left bg-hover transition-all group">
+                    <div key={item.id} role="button" tabIndex={0} onClick={() => loadFromHistory(item)}
+                      onKeyDown={e => e.key === 'Enter' && loadFromHistory(item)}
+                      className={`w-full glass-card rounded-xl p-3 text-left bg-hover transition-all group cursor-pointer ${item.pinned ? 'border-l-4 border-warning' : ''}`}>
                       <div className="flex items-center justify-between mb-1.5">
                         <div className="flex items-center gap-1.5 text-[10px] text-base-muted">
                           <span>{getLanguageByCode(item.sourceLang)?.flag}</span>
@@ -1002,16 +1598,41 @@ export function App() {
                           <span>{getLanguageByCode(item.targetLang)?.flag}</span>
                           <span>{item.targetLang.toUpperCase()}</span>
                         </div>
-                        <span className="text-[10px] text-base-hint">
-                          {new Date(item.timestamp).toLocaleTimeString('uz-UZ', { hour: '2-digit', minute: '2-digit' })}
-                        </span>
+                        <div className="flex items-center gap-1">
+                          <span className="text-[10px] text-base-hint">
+                            {new Date(item.timestamp).toLocaleString('uz-UZ', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                          <button onClick={e => { e.stopPropagation(); togglePin(item); }}
+                            className={`p-0.5 text-xs rounded bg-hover ${item.pinned ? 'text-warning' : 'text-base-hint'}`} title={item.pinned ? 'Qadashni bekor qilish' : 'Qadash'}>
+                            {item.pinned ? '★' : '☆'}
+                          </button>
+                          <button onClick={e => { e.stopPropagation(); deleteHistoryItem(item.id); }}
+                            className="p-0.5 text-xs text-danger rounded bg-hover opacity-60 group-hover:opacity-100" title="O'chirish">✕</button>
+                        </div>
                       </div>
+                      {item.translatedLater && (
+                        <span className="inline-block mb-1 px-1.5 py-0.5 rounded bg-warning/10 text-warning text-[9px]">⏳ Keyinroq tarjima qilindi</span>
+                      )}
+                      {item.conversation && (
+                        <span className="inline-block mb-1 px-1.5 py-0.5 rounded bg-primary/10 text-primary text-[9px]">💬 Suhbat</span>
+                      )}
                       <p className="text-base-secondary text-xs truncate mb-1">{item.sourceText}</p>
                       <p className="text-primary text-xs truncate group-hover:text-secondary transition-colors">{item.translatedText}</p>
-                    </button>
+                    </div>
                   ))
                 )}
               </div>
+
+              {/* Pagination */}
+              {historyTotal > 0 && (
+                <div className="px-4 py-3 flex items-center justify-between text-xs" style={{ borderTop: `1px solid ${darkMode ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)'}` }}>
+                  <button onClick={() => setHistoryPage(historyPage - 1)} disabled={historyPage === 0}
+                    className="px-2 py-1 rounded-lg glass bg-hover text-base-secondary disabled:opacity-30 disabled:cursor-not-allowed">← Oldingi</button>
+                  <span className="text-base-muted">{historyPage + 1} / {historyPageCount} • {historyTotal} ta</span>
+                  <button onClick={() => setHistoryPage(historyPage + 1)} disabled={historyPage >= historyPageCount - 1}
+                    className="px-2 py-1 rounded-lg glass bg-hover text-base-secondary disabled:opacity-30 disabled:cursor-not-allowed">Keyingi →</button>
+                </div>
+              )}
             </div>
           </div>
         </>
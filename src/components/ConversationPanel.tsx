@@ -0,0 +1,152 @@
+import { useState, useEffect, useRef } from 'react';
+import { getLanguageByCode, getTargetLanguages } from '../constants/languages';
+import { useConversation, conversationToHistory, type ConversationSide, type ConversationTurn } from '../hooks/useConversation';
+import type { HistoryItem } from '../services/historyStore';
+
+interface ConversationPanelProps {
+  initialLangA: string;
+  initialLangB: string;
+  speak: (text: string, lang: string) => void;
+  onSave: (item: Omit<HistoryItem, 'id' | 'timestamp'>) => void;
+}
+
+/**
+ * Face-to-face conversation: one microphone per person, each utterance
+ * translated and read out to the other. The flipped layout turns the
+ * other person's half upside down so they can read it across a table.
+ */
+export function ConversationPanel({ initialLangA, initialLangB, speak, onSave }: ConversationPanelProps) {
+  const [langA, setLangA] = useState(initialLangA === 'auto' ? 'uz' : initialLangA);
+  const [langB, setLangB] = useState(initialLangB === langA ? 'ru' : initialLangB);
+  const [flipped, setFlipped] = useState(false);
+  const [message, setMessage] = useState('');
+  const { turns, interim, error, listeningSide, isSupported, toggleSide, retryTurn, clear } = useConversation({ langA, langB, speak });
+  const listRefs = useRef(new Map<ConversationSide | 'both', HTMLDivElement>());
+
+  // Keep the newest turn in view
+  useEffect(() => {
+    listRefs.current.forEach(el => { el.scrollTop = el.scrollHeight; });
+  }, [turns, interim, flipped]);
+
+  const langOf = (side: ConversationSide) => side === 'a' ? langA : langB;
+  const doneCount = turns.filter(t => t.status === 'done').length;
+
+  const handleSave = () => {
+    onSave(conversationToHistory(turns, langA, langB));
+    setMessage('✅ Suhbat tarixga saqlandi');
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const selectClass = 'flex-1 min-w-0 glass rounded-xl px-3 py-2 text-base-primary text-sm bg-transparent focus:outline-none focus:ring-1 focus:ring-primary appearance-none cursor-pointer';
+
+  const renderMic = (side: ConversationSide) => {
+    const lang = getLanguageByCode(langOf(side));
+    const listening = listeningSide === side;
+    return (
+      <button onClick={() => toggleSide(side)} disabled={!isSupported}
+        className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-2xl mic-btn text-white font-medium text-sm shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed ${listening ? 'mic-btn-active' : ''}`}>
+        <span className="text-lg">{listening ? '⏹' : '🎙'}</span>
+        <span>{lang?.flag} {listening ? 'Tinglanmoqda...' : lang?.nativeName}</span>
+      </button>
+    );
+  };
+
+  /** A turn as `viewer` reads it: each person sees their own words and the translation of the other's */
+  const renderTurn = (turn: ConversationTurn, viewer: ConversationSide | 'both') => {
+    const own = viewer === 'both' ? turn.side === 'a' : turn.side === viewer;
+    const showOriginal = viewer === 'both' || turn.side === viewer;
+    const showTranslation = viewer === 'both' || turn.side !== viewer;
+    return (
+      <div key={turn.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+        <div className={`max-w-[85%] rounded-2xl px-3 py-2 ${own ? 'bg-primary/15' : 'glass'}`}>
+          <div className="text-[10px] text-base-hint mb-0.5">{getLanguageByCode(langOf(turn.side))?.flag}</div>
+          {showOriginal && <p className="text-base-primary text-sm leading-relaxed">{turn.text}</p>}
+          {showTranslation && (
+            turn.status === 'translating' ? (
+              <span className="text-base-muted italic text-xs">Tarjima qilinmoqda...</span>
+            ) : turn.status === 'error' ? (
+              <button onClick={() => retryTurn(turn.id)} className="text-danger text-xs">⚠️ Tarjima qilinmadi — 🔄 Qayta</button>
+            ) : showOriginal ? (
+              <p className="text-primary text-xs mt-1 font-medium">→ {turn.translation}</p>
+            ) : (
+              <p className="text-base-primary text-sm leading-relaxed">{turn.translation}</p>
+            )
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTranscript = (viewer: ConversationSide | 'both', height: string) => (
+    <div ref={el => { if (el) listRefs.current.set(viewer, el); else listRefs.current.delete(viewer); }}
+      className={`space-y-2 overflow-y-auto text-display ${height}`}>
+      {turns.length === 0 && !interim && (
+        <p className="text-base-hint italic text-sm text-center py-6">
+          {viewer === 'b' ? getLanguageByCode(langB)?.nativeName : 'Mikrofonni bosib gapiring'} 🎙
+        </p>
+      )}
+      {turns.map(turn => renderTurn(turn, viewer))}
+      {interim && (viewer === 'both' || viewer === interim.side) && (
+        <div className={`flex ${viewer !== 'both' || interim.side === 'a' ? 'justify-end' : 'justify-start'}`}>
+          <p className="max-w-[85%] text-base-muted italic text-sm px-3">{interim.text}</p>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      {/* Languages */}
+      <div className="flex items-center gap-2 mb-4">
+        <select value={langA} onChange={e => setLangA(e.target.value)} className={selectClass}>
+          {getTargetLanguages().map(l => <option key={l.code} value={l.code} disabled={l.code === langB}>{l.flag} {l.name}</option>)}
+        </select>
+        <span className="text-base-muted">⇄</span>
+        <select value={langB} onChange={e => setLangB(e.target.value)} className={selectClass}>
+          {getTargetLanguages().map(l => <option key={l.code} value={l.code} disabled={l.code === langA}>{l.flag} {l.name}</option>)}
+        </select>
+        <button onClick={() => setFlipped(!flipped)} title="Suhbatdosh qarshingizda o'tirganda"
+          className={`px-3 py-2 rounded-xl text-sm transition-all ${flipped ? 'bg-primary/20 text-primary' : 'glass bg-hover text-base-secondary'}`}>
+          🔃
+        </button>
+      </div>
+
+      {flipped ? (
+        <div className="space-y-3">
+          {/* The other person's half, upside down */}
+          <div className="glass-card rounded-2xl p-3 rotate-180 space-y-3">
+            {renderTranscript('b', 'h-[180px]')}
+            <div className="flex">{renderMic('b')}</div>
+          </div>
+          <div className="glass-card rounded-2xl p-3 space-y-3">
+            {renderTranscript('a', 'h-[180px]')}
+            <div className="flex">{renderMic('a')}</div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="glass-card rounded-2xl p-3">{renderTranscript('both', 'h-[320px]')}</div>
+          <div className="flex gap-3">
+            {renderMic('a')}
+            {renderMic('b')}
+          </div>
+        </div>
+      )}
+
+      {!isSupported && <p className="text-danger text-xs mt-2 text-center">⚠️ Brauzeringiz qo'llab-quvvatlamaydi. Chrome ishlating.</p>}
+      {error && <p className="text-danger text-xs mt-2 text-center animate-shake">❌ {error}</p>}
+
+      <div className="flex flex-wrap items-center justify-center gap-2 mt-4">
+        <button onClick={handleSave} disabled={doneCount === 0}
+          className="flex items-center gap-2 px-4 py-2.5 rounded-full glass bg-hover transition-all text-sm font-medium text-base-secondary disabled:opacity-30 disabled:cursor-not-allowed hover:translate-y-[-1px]">
+          <span>💾</span> Tarixga saqlash
+        </button>
+        <button onClick={clear} disabled={turns.length === 0}
+          className="flex items-center gap-2 px-4 py-2.5 rounded-full glass transition-all text-sm font-medium text-base-secondary hover:text-danger disabled:opacity-30 disabled:cursor-not-allowed hover:translate-y-[-1px]">
+          <span>🗑</span> Tozalash
+        </button>
+      </div>
+      {message && <p className="text-center text-xs text-base-secondary mt-2 animate-fade-in-up">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import type { DictPhonetic, DictSense } from '../hooks/useDictionary';
+
+interface DictEntryDetailsProps {
+  phonetics?: DictPhonetic[];
+  senses: DictSense[];
+  /** Look up a synonym/antonym */
+  onWordClick: (word: string) => void;
+}
+
+/** Region label from dictionaryapi.dev recording names, e.g. ".../hello-uk.mp3" */
+function audioRegion(url: string) {
+  const m = url.match(/-(us|uk|au|ca)\.mp3$/i);
+  return m ? m[1].toUpperCase() : '';
+}
+
+function playAudio(url: string) {
+  new Audio(url).play().catch(err => console.error('[Dictionary] Audio error:', err));
+}
+
+function WordChips({ label, words, className, onWordClick }: { label: string; words: string[]; className: string; onWordClick: (word: string) => void }) {
+  if (words.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1.5">
+      <span className="text-base-hint text-[10px] uppercase mr-1">{label}:</span>
+      {words.map(w => (
+        <button key={w} onClick={() => onWordClick(w)}
+          className={`px-2 py-0.5 rounded-full glass text-xs bg-hover cursor-pointer ${className}`}>
+          {w}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Pronunciations and senses of a dictionary entry, grouped by part of speech */
+export function DictEntryDetails({ phonetics = [], senses, onWordClick }: DictEntryDetailsProps) {
+  return (
+    <>
+      {phonetics.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {phonetics.map((p, i) => p.audio ? (
+            <button key={i} onClick={() => playAudio(p.audio!)}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full glass bg-hover text-xs text-base-secondary" title="Yozuvni eshitish">
+              <span>▶</span>
+              {p.text && <span>{p.text}</span>}
+              {audioRegion(p.audio) && <span className="text-base-hint text-[10px]">{audioRegion(p.audio)}</span>}
+            </button>
+          ) : (
+            <span key={i} className="px-2 py-0.5 rounded-full glass text-xs text-base-muted">{p.text}</span>
+          ))}
+        </div>
+      )}
+
+      {senses.map(sense => (
+        <div key={sense.partOfSpeech} className="mt-3">
+          <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-[10px] font-medium">{sense.partOfSpeech}</span>
+          <ol className="mt-2 space-y-2 list-decimal list-inside">
+            {sense.definitions.map((d, j) => (
+              <li key={j} className="text-base-secondary text-sm">
+                {d.definition}
+                {d.example && (
+                  <p className="text-base-muted text-sm italic pl-3 mt-0.5 border-l-2 border-primary/30">"{d.example}"</p>
+                )}
+                {d.synonyms && <WordChips label="Sinonim" words={d.synonyms} className="text-secondary" onWordClick={onWordClick} />}
+                {d.antonyms && <WordChips label="Antonim" words={d.antonyms} className="text-danger" onWordClick={onWordClick} />}
+              </li>
+            ))}
+          </ol>
+          <WordChips label="Sinonimlar" words={sense.synonyms} className="text-secondary" onWordClick={onWordClick} />
+          <WordChips label="Antonimlar" words={sense.antonyms} className="text-danger" onWordClick={onWordClick} />
+        </div>
+      ))}
+    </>
+  );
+}
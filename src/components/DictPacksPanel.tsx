@@ -0,0 +1,68 @@
+import { useState, useRef } from 'react';
+import { getLanguageByCode } from '../constants/languages';
+import { useDictPacks } from '../hooks/useDictPacks';
+
+interface DictPacksPanelProps {
+  onClose: () => void;
+}
+
+/** Modal for installing and removing offline dictionary packs */
+export function DictPacksPanel({ onClose }: DictPacksPanelProps) {
+  const { packs, isInstalling, install, remove } = useDictPacks();
+  const [message, setMessage] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const handleInstall = async (file: File) => {
+    try {
+      const info = await install(file);
+      setMessage(`✅ "${info.name}" o'rnatildi: ${info.entryCount} ta so'z`);
+    } catch (err) {
+      console.error('[DictPacks] Install error:', err);
+      setMessage(`❌ Paketni o'rnatib bo'lmadi: ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const flag = (code: string) => getLanguageByCode(code)?.flag ?? code;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40 backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-x-4 top-16 bottom-16 z-50 flex items-start justify-center pointer-events-none">
+        <div className="glass-strong rounded-2xl p-4 w-full max-w-lg max-h-full flex flex-col pointer-events-auto animate-fade-in-down">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-base-primary text-sm font-semibold">📦 Oflayn lug'at paketlari</h3>
+            <button onClick={onClose} className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-base-muted">✕</button>
+          </div>
+
+          <p className="text-base-muted text-xs mb-3">
+            Paketlar qurilmada saqlanadi va lug'at qidiruvida birinchi tekshiriladi — internet bo'lmasa ham ishlaydi.
+          </p>
+
+          <div className="flex-1 overflow-y-auto space-y-2 min-h-[120px]">
+            {packs.length === 0 ? (
+              <p className="text-center text-base-muted text-xs py-6">Hali paket o'rnatilmagan. Ilova bilan paket kelmaydi — istalgan til jufti uchun paket faylini (.json) tanlang.</p>
+            ) : packs.map(pack => (
+              <div key={pack.id} className="flex items-center gap-2 glass rounded-lg px-3 py-2 dict-entry">
+                <div className="flex-1 min-w-0">
+                  <p className="text-base-primary text-sm font-medium truncate">{pack.name}</p>
+                  <p className="text-base-hint text-[10px]">
+                    {flag(pack.sourceLang)} {pack.bidirectional ? '↔' : '→'} {flag(pack.targetLang)} • v{pack.version} • {pack.entryCount} ta so'z
+                  </p>
+                </div>
+                <button onClick={() => remove(pack.id)} className="p-1 text-xs text-danger bg-hover rounded" title="O'chirish">✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mt-3 gap-2">
+            <span className="text-base-muted text-xs">{isInstalling ? "⏳ O'rnatilmoqda..." : message}</span>
+            <input ref={importRef} type="file" accept=".json" className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) handleInstall(f); e.target.value = ''; }} />
+            <button onClick={() => importRef.current?.click()} disabled={isInstalling}
+              className="text-xs text-base-secondary bg-hover px-2 py-1 rounded-lg glass disabled:opacity-30 disabled:cursor-not-allowed">📥 Paket qo'shish</button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, useRef } from 'react';
+import { getLanguageByCode, getTargetLanguages } from '../constants/languages';
+import { useGlossary } from '../hooks/useGlossary';
+import { downloadFile } from '../utils/file';
+
+interface GlossaryPanelProps {
+  initialSourceLang: string;
+  initialTargetLang: string;
+  onClose: () => void;
+}
+
+/** Modal for editing, importing and exporting glossary terms per language pair */
+export function GlossaryPanel({ initialSourceLang, initialTargetLang, onClose }: GlossaryPanelProps) {
+  const { entries, addTerm, updateTerm, removeTerm, importTerms, exportTerms } = useGlossary();
+  const [sourceLang, setSourceLang] = useState(initialSourceLang === 'auto' ? 'uz' : initialSourceLang);
+  const [targetLang, setTargetLang] = useState(initialTargetLang);
+  const [newSource, setNewSource] = useState('');
+  const [newTarget, setNewTarget] = useState('');
+  const [message, setMessage] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const pairEntries = entries.filter(e => e.sourceLang === sourceLang && e.targetLang === targetLang);
+
+  const handleAdd = () => {
+    if (!newSource.trim() || !newTarget.trim()) return;
+    addTerm({ sourceLang, targetLang, source: newSource.trim(), target: newTarget.trim() });
+    setNewSource('');
+    setNewTarget('');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = importTerms(await file.text(), sourceLang, targetLang);
+      setMessage(`✅ ${count} ta atama import qilindi`);
+    } catch (err) {
+      console.error('[Glossary] Import error:', err);
+      setMessage('❌ Faylni o\'qib bo\'lmadi');
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(`glossary-${sourceLang}-${targetLang}.json`, exportTerms(sourceLang, targetLang), 'application/json');
+  };
+
+  const selectClass = 'w-full glass rounded-xl px-3 py-2 text-base-primary text-sm bg-transparent focus:outline-none focus:ring-1 focus:ring-primary appearance-none cursor-pointer';
+  const inputClass = 'w-full bg-input rounded-lg px-3 py-2 text-base-primary text-sm placeholder:text-base-hint focus:outline-none focus:ring-1 focus:ring-primary';
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40 backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed inset-x-4 top-16 bottom-16 z-50 flex items-start justify-center pointer-events-none">
+        <div className="glass-strong rounded-2xl p-4 w-full max-w-lg max-h-full flex flex-col pointer-events-auto animate-fade-in-down">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-base-primary text-sm font-semibold">📘 Glossariy — himoyalangan atamalar</h3>
+            <button onClick={onClose} className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-base-muted">✕</button>
+          </div>
+
+          <div className="flex items-center gap-2 mb-3">
+            <select value={sourceLang} onChange={e => setSourceLang(e.target.value)} className={selectClass}>
+              {getTargetLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+            </select>
+            <span className="text-primary">→</span>
+            <select value={targetLang} onChange={e => setTargetLang(e.target.value)} className={selectClass}>
+              {getTargetLanguages().map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+            </select>
+          </div>
+
+          <div className="flex gap-2 mb-3">
+            <input value={newSource} onChange={e => setNewSource(e.target.value)} placeholder={`${getLanguageByCode(sourceLang)?.flag} Atama`} className={inputClass} />
+            <input value={newTarget} onChange={e => setNewTarget(e.target.value)} placeholder={`${getLanguageByCode(targetLang)?.flag} Tarjimasi`}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()} className={inputClass} />
+            <button onClick={handleAdd} disabled={!newSource.trim() || !newTarget.trim()}
+              className="px-3 rounded-lg bg-gradient-to-r from-primary to-secondary text-white text-sm disabled:opacity-40 disabled:cursor-not-allowed">+</button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-2 min-h-[120px]">
+            {pairEntries.length === 0 ? (
+              <p className="text-center text-base-muted text-xs py-6">Bu til jufti uchun atama yo'q. Mahsulot nomlari, ismlar va atamalarni qo'shing.</p>
+            ) : pairEntries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2 glass rounded-lg px-3 py-2 dict-entry">
+                <input value={entry.source} onChange={e => updateTerm(entry.id, { source: e.target.value })}
+                  className="flex-1 min-w-0 bg-transparent text-base-primary text-sm focus:outline-none" />
+                <span className="text-primary text-sm">→</span>
+                <input value={entry.target} onChange={e => updateTerm(entry.id, { target: e.target.value })}
+                  className="flex-1 min-w-0 bg-transparent text-primary text-sm focus:outline-none" />
+                <button onClick={() => updateTerm(entry.id, { caseSensitive: !entry.caseSensitive })}
+                  className={`p-1 text-[10px] rounded bg-hover ${entry.caseSensitive ? 'text-primary' : 'text-base-hint'}`} title="Katta-kichik harfni farqlash">Aa</button>
+                <button onClick={() => removeTerm(entry.id)} className="p-1 text-xs text-danger bg-hover rounded">✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mt-3 gap-2">
+            <span className="text-base-muted text-xs">{message}</span>
+            <div className="flex gap-2">
+              <input ref={importRef} type="file" accept=".json,.csv,.tsv,.txt" className="hidden"
+                onChange={e => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ''; }} />
+              <button onClick={() => importRef.current?.click()} className="text-xs text-base-secondary bg-hover px-2 py-1 rounded-lg glass">📥 Import</button>
+              <button onClick={handleExport} disabled={pairEntries.length === 0}
+                className="text-xs text-base-secondary bg-hover px-2 py-1 rounded-lg glass disabled:opacity-30 disabled:cursor-not-allowed">📤 Eksport</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
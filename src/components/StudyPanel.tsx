@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import type { VocabEntry } from '../hooks/useVocabulary';
+import type { ReviewGrade } from '../services/srs';
+
+interface StudyPanelProps {
+  /** Cards due in this session, snapshotted when the session opens */
+  cards: VocabEntry[];
+  onReview: (card: VocabEntry, grade: ReviewGrade) => void;
+  onSpeak: (card: VocabEntry) => void;
+  onClose: () => void;
+}
+
+const GRADES: Array<{ grade: ReviewGrade; label: string; hint: string; className: string }> = [
+  { grade: 1, label: 'Eslay olmadim', hint: '10 daq', className: 'text-danger' },
+  { grade: 3, label: 'Qiyin', hint: '', className: 'text-warning' },
+  { grade: 4, label: 'Yaxshi', hint: '', className: 'text-primary' },
+  { grade: 5, label: 'Oson', hint: '', className: 'text-success' },
+];
+
+/** Flashcard review session: word → reveal → self-graded recall */
+export function StudyPanel({ cards, onReview, onSpeak, onClose }: StudyPanelProps) {
+  const [queue, setQueue] = useState(cards);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const card = queue[0];
+
+  const grade = (g: ReviewGrade) => {
+    if (!card) return;
+    onReview(card, g);
+    setReviewed(n => n + 1);
+    setRevealed(false);
+    // Forgotten cards come back at the end of this session
+    setQueue(prev => g < 3 ? [...prev.slice(1), prev[0]] : prev.slice(1));
+  };
+
+  return (
+    <div className="glass-card rounded-2xl p-4 mb-4 animate-fade-in-down">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-base-primary text-sm font-semibold">🧠 Takrorlash</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-base-muted text-xs">{reviewed} ta ko'rildi • {queue.length} ta qoldi</span>
+          <button onClick={onClose} className="w-7 h-7 rounded-lg glass flex items-center justify-center bg-hover text-base-muted text-xs">✕</button>
+        </div>
+      </div>
+
+      {!card ? (
+        <div className="text-center py-8">
+          <p className="text-4xl mb-2">🎉</p>
+          <p className="text-base-primary text-sm font-medium">Bugungi takrorlash tugadi!</p>
+          <p className="text-base-muted text-xs mt-1">Ertaga yangi so'zlar navbatga tushadi.</p>
+        </div>
+      ) : (
+        <div className="text-center">
+          <div className="flex items-center justify-center gap-2 mb-1">
+            <h4 className="text-base-primary text-2xl font-bold">{card.word}</h4>
+            <button onClick={() => onSpeak(card)} className="w-8 h-8 rounded-lg glass flex items-center justify-center bg-hover text-sm" title="Talaffuz">🔊</button>
+          </div>
+
+          {!revealed ? (
+            <button onClick={() => setRevealed(true)}
+              className="mt-4 px-5 py-2.5 rounded-xl bg-gradient-to-r from-primary to-secondary text-white font-medium text-sm shadow-lg hover:opacity-90 transition-all">
+              👁 Javobni ko'rsatish
+            </button>
+          ) : (
+            <div className="animate-fade-in-up">
+              {card.phonetic && <p className="text-base-muted text-sm">{card.phonetic}</p>}
+              <p className="text-primary text-lg font-semibold mt-2">→ {card.translation}</p>
+              {card.examples && card.examples.length > 0 && (
+                <div className="mt-3 space-y-1 text-left">
+                  {card.examples.map((ex, i) => (
+                    <p key={i} className="text-base-secondary text-sm italic pl-3 border-l-2 border-primary/30">"{ex}"</p>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-4">
+                {GRADES.map(g => (
+                  <button key={g.grade} onClick={() => grade(g.grade)}
+                    className={`px-2 py-2 rounded-xl glass bg-hover text-xs font-medium transition-all ${g.className}`}>
+                    {g.label}
+                    {g.hint && <span className="block text-[9px] text-base-hint">{g.hint}</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useRef } from 'react';
+import type { VideoSubtitle } from '../hooks/useVideoTranslation';
+import { useSubtitleEditor } from '../hooks/useSubtitleEditor';
+import { formatTimestamp } from '../services/subtitles';
+
+interface SubtitleEditorProps {
+  subtitles: VideoSubtitle[];
+  onChange: (cues: VideoSubtitle[]) => void;
+  sourceLang: string;
+  targetLang: string;
+  activeCueId: string | null;
+  onSeek: (time: number) => void;
+}
+
+const NUDGE_STEP = 0.1;
+
+/** Editable cue list: text, timings, split/merge and single-cue re-translation with undo/redo */
+export function SubtitleEditor({ subtitles, onChange, sourceLang, targetLang, activeCueId, onSeek }: SubtitleEditorProps) {
+  const { editText, nudge, split, merge, retranslate, retranslatingId, undo, redo, canUndo, canRedo } = useSubtitleEditor(subtitles, onChange);
+  const originalRefs = useRef(new Map<string, HTMLTextAreaElement>());
+
+  const handleSplit = (cue: VideoSubtitle) => {
+    const position = originalRefs.current.get(cue.id)?.selectionStart ?? 0;
+    split(cue.id, position);
+  };
+
+  const smallButton = 'px-1.5 py-0.5 rounded glass bg-hover text-[10px] text-base-secondary disabled:opacity-30 disabled:cursor-not-allowed';
+  const textareaClass = 'w-full bg-input rounded-lg px-2 py-1 text-xs resize-none focus:outline-none focus:ring-1 focus:ring-primary';
+
+  const renderTime = (cue: VideoSubtitle, edge: 'start' | 'end') => (
+    <span className="flex items-center gap-0.5">
+      <button onClick={() => nudge(cue.id, edge, -NUDGE_STEP)} className={smallButton} title="-0.1 s">−</button>
+      <span className="text-secondary text-[10px] font-mono bg-secondary/10 px-1.5 py-0.5 rounded">
+        {formatTimestamp(edge === 'start' ? cue.startTime : cue.endTime, 'vtt')}
+      </span>
+      <button onClick={() => nudge(cue.id, edge, NUDGE_STEP)} className={smallButton} title="+0.1 s">+</button>
+    </span>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-2">
+        <button onClick={undo} disabled={!canUndo} className={smallButton} title="Bekor qilish">↶ Orqaga</button>
+        <button onClick={redo} disabled={!canRedo} className={smallButton} title="Qaytarish">↷ Oldinga</button>
+        <span className="text-base-hint text-[10px] ml-auto">✂ kursor joyida bo'ladi</span>
+      </div>
+
+      <div className="space-y-2 max-h-[400px] overflow-y-auto text-display">
+        {subtitles.map((cue, i) => (
+          <div key={cue.id} id={`cue-${cue.id}`}
+            className={`glass rounded-xl px-3 py-2 space-y-1.5 ${cue.id === activeCueId ? 'ring-1 ring-primary bg-primary/10' : ''}`}>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => onSeek(cue.startTime)} className={smallButton} title="Shu joydan ko'rish">▶</button>
+              {renderTime(cue, 'start')}
+              <span className="text-base-hint text-[10px]">→</span>
+              {renderTime(cue, 'end')}
+              <div className="flex items-center gap-1 ml-auto">
+                <button onClick={() => handleSplit(cue)} className={smallButton} title="Kursor joyida bo'lish">✂</button>
+                <button onClick={() => merge(cue.id)} disabled={i === subtitles.length - 1} className={smallButton} title="Keyingisi bilan birlashtirish">⤓</button>
+                <button onClick={() => retranslate(cue.id, sourceLang, targetLang)} disabled={retranslatingId === cue.id}
+                  className={smallButton} title="Qayta tarjima qilish">{retranslatingId === cue.id ? '⏳' : '🔄'}</button>
+              </div>
+            </div>
+            <textarea
+              ref={el => { if (el) originalRefs.current.set(cue.id, el); else originalRefs.current.delete(cue.id); }}
+              value={cue.originalText} onChange={e => editText(cue.id, 'originalText', e.target.value)}
+              rows={Math.min(3, cue.originalText.split('\n').length)} className={`${textareaClass} text-base-primary`} />
+            <textarea
+              value={cue.translatedText} onChange={e => editText(cue.id, 'translatedText', e.target.value)} placeholder="Tarjima..."
+              rows={Math.min(3, Math.max(1, cue.translatedText.split('\n').length))} className={`${textareaClass} text-primary font-medium placeholder:text-base-hint`} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
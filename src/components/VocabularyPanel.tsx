@@ -0,0 +1,142 @@
+import { useState, useMemo } from 'react';
+import { getLanguageByCode } from '../constants/languages';
+import { filterVocabulary, type VocabEntry, type VocabDeck, type VocabChanges, type VocabSort } from '../hooks/useVocabulary';
+
+interface VocabularyPanelProps {
+  words: VocabEntry[];
+  decks: VocabDeck[];
+  allTags: string[];
+  onUpdate: (id: string, changes: VocabChanges) => void;
+  onRemove: (id: string) => void;
+  onAddDeck: (name: string) => VocabDeck;
+  onRemoveDeck: (id: string) => void;
+  onSpeak: (word: VocabEntry) => void;
+}
+
+const SORTS: Array<{ value: VocabSort; label: string }> = [
+  { value: 'newest', label: 'Yangi avval' },
+  { value: 'oldest', label: 'Eski avval' },
+  { value: 'alpha', label: 'A → Z' },
+  { value: 'due', label: 'Takrorlash vaqti' },
+];
+
+const parseTags = (value: string) => Array.from(new Set(value.split(/[,\s]+/).map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+/** Vocabulary notebook: filterable list of saved words with decks, tags and notes */
+export function VocabularyPanel({ words, decks, allTags, onUpdate, onRemove, onAddDeck, onRemoveDeck, onSpeak }: VocabularyPanelProps) {
+  const [search, setSearch] = useState('');
+  const [deckId, setDeckId] = useState('');
+  const [tag, setTag] = useState('');
+  const [pair, setPair] = useState('');
+  const [sort, setSort] = useState<VocabSort>('newest');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newDeck, setNewDeck] = useState('');
+
+  const pairs = useMemo(
+    () => Array.from(new Set(words.map(w => `${w.sourceLang}|${w.targetLang}`))).sort(),
+    [words]
+  );
+  const visible = useMemo(
+    () => filterVocabulary(words, { search, deckId, tag, pair, sort }),
+    [words, search, deckId, tag, pair, sort]
+  );
+
+  const handleAddDeck = () => {
+    if (!newDeck.trim()) return;
+    setDeckId(onAddDeck(newDeck).id);
+    setNewDeck('');
+  };
+
+  const pairLabel = (value: string) => {
+    const [src, tgt] = value.split('|');
+    return `${getLanguageByCode(src)?.flag ?? src} → ${getLanguageByCode(tgt)?.flag ?? tgt}`;
+  };
+
+  const selectClass = 'glass rounded-lg px-2 py-1.5 text-base-primary text-xs bg-transparent focus:outline-none focus:ring-1 focus:ring-primary appearance-none cursor-pointer';
+  const inputClass = 'bg-input rounded-lg px-2 py-1.5 text-base-primary text-xs placeholder:text-base-hint focus:outline-none focus:ring-1 focus:ring-primary';
+
+  return (
+    <div className="glass-card rounded-xl p-3">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-1.5 mb-2">
+        <input value={search} onChange={e => setSearch(e.target.value)} placeholder="🔍 Qidirish..." className={`${inputClass} flex-1 min-w-[120px]`} />
+        <select value={deckId} onChange={e => setDeckId(e.target.value)} className={selectClass}>
+          <option value="">📚 Barcha to'plamlar</option>
+          {decks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+        {allTags.length > 0 && (
+          <select value={tag} onChange={e => setTag(e.target.value)} className={selectClass}>
+            <option value="">🏷 Barcha teglar</option>
+            {allTags.map(t => <option key={t} value={t}>#{t}</option>)}
+          </select>
+        )}
+        {pairs.length > 1 && (
+          <select value={pair} onChange={e => setPair(e.target.value)} className={selectClass}>
+            <option value="">🌐 Barcha tillar</option>
+            {pairs.map(p => <option key={p} value={p}>{pairLabel(p)}</option>)}
+          </select>
+        )}
+        <select value={sort} onChange={e => setSort(e.target.value as VocabSort)} className={selectClass}>
+          {SORTS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+      </div>
+
+      {/* Decks */}
+      <div className="flex flex-wrap items-center gap-1.5 mb-2">
+        <input value={newDeck} onChange={e => setNewDeck(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleAddDeck()}
+          placeholder="Yangi to'plam nomi" className={`${inputClass} w-36`} />
+        <button onClick={handleAddDeck} disabled={!newDeck.trim()}
+          className="px-2 py-1.5 rounded-lg glass bg-hover text-xs text-primary disabled:opacity-30 disabled:cursor-not-allowed">+ To'plam</button>
+        {deckId && (
+          <button onClick={() => { onRemoveDeck(deckId); setDeckId(''); }}
+            className="px-2 py-1.5 rounded-lg glass bg-hover text-xs text-danger" title="So'zlar o'chirilmaydi">🗑 To'plamni o'chirish</button>
+        )}
+        <span className="text-base-hint text-[10px] ml-auto">{visible.length} / {words.length}</span>
+      </div>
+
+      <div className="max-h-[320px] overflow-y-auto">
+        {words.length === 0 ? (
+          <p className="text-center text-base-muted text-xs py-4">Hali saqlangan so'z yo'q. ⭐ tugmasini bosing.</p>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-base-muted text-xs py-4">Filtrga mos so'z topilmadi.</p>
+        ) : (
+          <div className="space-y-2">
+            {visible.map(w => (
+              <div key={w.id} className="glass rounded-lg px-3 py-2 dict-entry">
+                <div className="flex items-center justify-between">
+                  <button onClick={() => setExpandedId(expandedId === w.id ? null : w.id)} className="flex-1 text-left min-w-0">
+                    <span className="text-base-primary text-sm font-medium">{w.word}</span>
+                    <span className="text-primary text-sm ml-2">→ {w.translation}</span>
+                    <span className="text-base-hint text-[10px] ml-2">{pairLabel(`${w.sourceLang}|${w.targetLang}`)}</span>
+                    {w.tags.map(t => <span key={t} className="text-[10px] text-secondary ml-1">#{t}</span>)}
+                    {w.note && <span className="text-[10px] ml-1" title={w.note}>📝</span>}
+                  </button>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => onSpeak(w)} className="p-1 text-xs bg-hover rounded">🔊</button>
+                    <button onClick={() => onRemove(w.id)} className="p-1 text-xs text-danger bg-hover rounded">✕</button>
+                  </div>
+                </div>
+
+                {expandedId === w.id && (
+                  <div className="mt-2 space-y-1.5 animate-fade-in-down">
+                    <div className="flex gap-1.5">
+                      <select value={w.deckId ?? ''} onChange={e => onUpdate(w.id, { deckId: e.target.value || undefined })} className={`${selectClass} flex-1`}>
+                        <option value="">To'plamsiz</option>
+                        {decks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                      </select>
+                      <input defaultValue={w.tags.join(', ')} placeholder="Teglar: fe'l, ish"
+                        onBlur={e => onUpdate(w.id, { tags: parseTags(e.target.value) })}
+                        className={`${inputClass} flex-1`} />
+                    </div>
+                    <textarea value={w.note} onChange={e => onUpdate(w.id, { note: e.target.value })} placeholder="Izoh..." rows={2}
+                      className={`${inputClass} w-full resize-none`} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useMemo, type RefObject } from 'react';
+import { cueText, type SubtitleTrack, type VideoSubtitle } from '../services/subtitles';
+
+export type CaptionMode = 'off' | SubtitleTrack;
+
+export interface CaptionOptions {
+  mode: CaptionMode;
+  /** Vertical position of the cue box, % from the top of the video */
+  line: number;
+}
+
+export const CAPTION_TRACKS: Array<{ track: SubtitleTrack; label: string }> = [
+  { track: 'original', label: 'Asl matn' },
+  { track: 'translated', label: 'Tarjima' },
+  { track: 'bilingual', label: 'Ikki tilli' },
+];
+
+/** Caption tracks added to a media element; a track can't be removed, so they are reused for every file */
+const elementTracks = new WeakMap<HTMLMediaElement, Record<SubtitleTrack, TextTrack>>();
+/** The VTTCue shown for each subtitle id, per track */
+const trackCues = new WeakMap<TextTrack, Map<string, VTTCue>>();
+
+function tracksFor(media: HTMLMediaElement) {
+  let tracks = elementTracks.get(media);
+  if (!tracks) {
+    tracks = {} as Record<SubtitleTrack, TextTrack>;
+    for (const { track, label } of CAPTION_TRACKS) tracks[track] = media.addTextTrack('subtitles', label);
+    elementTracks.set(media, tracks);
+  }
+  return tracks;
+}
+
+/** Bring a track's cues in line with the subtitles, touching only the cues that changed */
+function syncCues(textTrack: TextTrack, subtitles: VideoSubtitle[], track: SubtitleTrack, line: number) {
+  let cues = trackCues.get(textTrack);
+  if (!cues) {
+    cues = new Map();
+    trackCues.set(textTrack, cues);
+  }
+  const current = new Set<string>();
+
+  for (const sub of subtitles) {
+    // Blank lines would end a cue in a file, so they're dropped here as well
+    const text = cueText(sub, track).split('\n').map(l => l.trim()).filter(Boolean).join('\n');
+    if (!text) continue;
+    current.add(sub.id);
+    let cue = cues.get(sub.id);
+    if (!cue) {
+      cue = new VTTCue(sub.startTime, sub.endTime, text);
+      cue.snapToLines = false;
+      cue.align = 'center';
+      cue.line = line;
+      textTrack.addCue(cue);
+      cues.set(sub.id, cue);
+      continue;
+    }
+    if (cue.text !== text) cue.text = text;
+    if (cue.startTime !== sub.startTime) cue.startTime = sub.startTime;
+    if (cue.endTime !== sub.endTime) cue.endTime = sub.endTime;
+    if (cue.line !== line) cue.line = line;
+  }
+
+  for (const [id, cue] of cues) {
+    if (current.has(id)) continue;
+    textTrack.removeCue(cue);
+    cues.delete(id);
+  }
+}
+
+/**
+ * Custom hook for live captions on the video player
+ * Keeps one text track per caption kind on the media element, updating
+ * cues in place as subtitles are transcribed, translated or edited (no
+ * rebuilt files, so captions don't flicker), shows the selected one and
+ * reports which cue is active during playback
+ */
+export function useCaptionTracks(
+  videoRef: RefObject<HTMLMediaElement | null>,
+  videoUrl: string | null,
+  subtitles: VideoSubtitle[],
+  { mode, line }: CaptionOptions
+) {
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const tracks = tracksFor(video);
+    for (const { track } of CAPTION_TRACKS) syncCues(tracks[track], subtitles, track, line);
+  }, [videoRef, videoUrl, subtitles, line]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const tracks = tracksFor(video);
+    for (const { track } of CAPTION_TRACKS) tracks[track].mode = track === mode ? 'showing' : 'disabled';
+  }, [videoRef, videoUrl, mode]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setCurrentTime(video.currentTime);
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [videoRef, videoUrl]);
+
+  const activeCueId = useMemo(
+    () => subtitles.find(s => currentTime >= s.startTime && currentTime < s.endTime)?.id ?? null,
+    [subtitles, currentTime]
+  );
+
+  return { activeCueId };
+}
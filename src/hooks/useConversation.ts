@@ -0,0 +1,141 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useSpeechRecognition } from './useSpeechRecognition';
+import { getActiveProvider, withCache, isAbortError } from '../services/translation';
+import { withGlossary } from '../services/glossary';
+import { getLanguageByCode } from '../constants/languages';
+import type { HistoryItem } from '../services/historyStore';
+
+/** The two people in a conversation: `a` holds the device, `b` sits across */
+export type ConversationSide = 'a' | 'b';
+
+export interface ConversationTurn {
+  id: string;
+  side: ConversationSide;
+  text: string;
+  translation: string;
+  status: 'translating' | 'done' | 'error';
+}
+
+interface ConversationOptions {
+  langA: string;
+  langB: string;
+  /** Reads a finished translation aloud in the listener's language */
+  speak: (text: string, lang: string) => void;
+}
+
+export const otherSide = (side: ConversationSide): ConversationSide => side === 'a' ? 'b' : 'a';
+
+/**
+ * A whole conversation as one history entry. Each turn is a line in both
+ * texts, flagged with the language it was said or translated into.
+ */
+export function conversationToHistory(turns: ConversationTurn[], langA: string, langB: string): Omit<HistoryItem, 'id' | 'timestamp'> {
+  const flag = (side: ConversationSide) => getLanguageByCode(side === 'a' ? langA : langB)?.flag ?? '';
+  const done = turns.filter(t => t.status === 'done');
+  return {
+    sourceText: done.map(t => `${flag(t.side)} ${t.text}`).join('\n'),
+    translatedText: done.map(t => `${flag(otherSide(t.side))} ${t.translation}`).join('\n'),
+    sourceLang: langA,
+    targetLang: langB,
+    conversation: true,
+  };
+}
+
+/**
+ * Custom hook for face-to-face conversation
+ * Each side has its own microphone in its own language; every utterance
+ * is translated into the other side's language and spoken to them.
+ */
+export function useConversation({ langA, langB, speak }: ConversationOptions) {
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [interim, setInterim] = useState<{ side: ConversationSide; text: string } | null>(null);
+  const [error, setError] = useState('');
+  const langOf = useCallback((side: ConversationSide) => side === 'a' ? langA : langB, [langA, langB]);
+
+  /** Translate a turn into the other side's language and read it out to them */
+  const translateTurn = useCallback(async ({ id, side, text }: ConversationTurn) => {
+    const sourceLang = langOf(side);
+    const targetLang = langOf(otherSide(side));
+    const update = (changes: Partial<ConversationTurn>) =>
+      setTurns(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
+
+    update({ status: 'translating' });
+    try {
+      const provider = withGlossary(withCache(getActiveProvider()));
+      const { translatedText } = await provider.translate(text, sourceLang, targetLang);
+      update({ translation: translatedText, status: translatedText ? 'done' : 'error' });
+      if (translatedText) speak(translatedText, targetLang);
+    } catch (err) {
+      if (!isAbortError(err)) console.error('[Conversation] Translation error:', err);
+      update({ status: 'error' });
+    }
+  }, [langOf, speak]);
+
+  const addTurn = useCallback((side: ConversationSide, text: string) => {
+    const turn: ConversationTurn = {
+      id: Date.now().toString(36) + Math.random().toString(36).substring(2),
+      side,
+      text,
+      translation: '',
+      status: 'translating',
+    };
+    setInterim(null);
+    setTurns(prev => [...prev, turn]);
+    translateTurn(turn);
+  }, [translateTurn]);
+
+  const callbacksFor = useCallback((side: ConversationSide) => ({
+    onInterimResult: (text: string) => setInterim({ side, text }),
+    onFinalResult: (text: string) => { if (text.trim()) addTurn(side, text.trim()); },
+    onError: (err: string) => {
+      setInterim(null);
+      setError(err === 'not-allowed' ? 'Mikrofonga ruxsat berilmagan' : err === 'no-speech' ? 'Nutq eshitilmadi' : `Xato: ${err}`);
+    },
+  }), [addTurn]);
+
+  const callbacksA = useMemo(() => callbacksFor('a'), [callbacksFor]);
+  const callbacksB = useMemo(() => callbacksFor('b'), [callbacksFor]);
+  const micA = useSpeechRecognition(getLanguageByCode(langA)?.speechCode || 'en-US', callbacksA);
+  const micB = useSpeechRecognition(getLanguageByCode(langB)?.speechCode || 'en-US', callbacksB);
+
+  const listeningSide: ConversationSide | null =
+    micA.status === 'listening' ? 'a' : micB.status === 'listening' ? 'b' : null;
+
+  /** Start (or stop) one side's microphone; only one listens at a time */
+  const toggleSide = useCallback((side: ConversationSide) => {
+    const [mic, other] = side === 'a' ? [micA, micB] : [micB, micA];
+    if (mic.status === 'listening') {
+      mic.stopListening();
+      return;
+    }
+    other.stopListening();
+    // A reply still being read out would be heard by the microphone
+    window.speechSynthesis?.cancel();
+    setError('');
+    mic.startListening();
+  }, [micA, micB]);
+
+  const retryTurn = useCallback((id: string) => {
+    const turn = turns.find(t => t.id === id);
+    if (turn) translateTurn(turn);
+  }, [turns, translateTurn]);
+
+  const clear = useCallback(() => {
+    micA.stopListening();
+    micB.stopListening();
+    setTurns([]);
+    setInterim(null);
+    setError('');
+  }, [micA, micB]);
+
+  return {
+    turns,
+    interim,
+    error,
+    listeningSide,
+    isSupported: micA.isSupported,
+    toggleSide,
+    retryTurn,
+    clear,
+  };
+}
@@ -0,0 +1,39 @@
+import { useState, useCallback, useEffect } from 'react';
+import { listPacks, installPack, removePack, type DictPackInfo } from '../services/dictPacks';
+
+/**
+ * Custom hook for managing installed offline dictionary packs
+ */
+export function useDictPacks() {
+  const [packs, setPacks] = useState<DictPackInfo[]>([]);
+  const [isInstalling, setIsInstalling] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setPacks(await listPacks());
+    } catch (err) {
+      console.error('[DictPacks] Load error:', err);
+    }
+  }, []);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  /** Install a pack file; a pack with the same id is replaced */
+  const install = useCallback(async (file: File) => {
+    setIsInstalling(true);
+    try {
+      const info = await installPack(await file.text());
+      await reload();
+      return info;
+    } finally {
+      setIsInstalling(false);
+    }
+  }, [reload]);
+
+  const remove = useCallback(async (id: string) => {
+    await removePack(id);
+    await reload();
+  }, [reload]);
+
+  return { packs, isInstalling, install, remove };
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect, useMemo, useRef, type RefObject } from 'react';
+import type { VideoSubtitle } from './useVideoTranslation';
+
+export interface DubbingOptions {
+  enabled: boolean;
+  /** BCP 47 code the cues are spoken in, e.g. "uz-UZ" */
+  lang: string;
+  voiceURI: string | null;
+  /** Base speech rate and volume, from the speech settings */
+  rate: number;
+  volume: number;
+  /** Level of the original soundtrack while dubbing, 0 mutes it */
+  originalVolume: number;
+  /** Pause the video while a cue that overran its slot finishes */
+  waitForSpeech: boolean;
+}
+
+/** Rough speaking speed of synthesized voices at rate 1, used to fit a cue into its slot */
+const CHARS_PER_SECOND = 14;
+/** Faster than this most voices become hard to follow */
+const MAX_DUB_RATE = 2;
+const TICK_MS = 100;
+
+/** Installed speech synthesis voices for a language ("uz" or "uz-UZ") */
+export function useSpeechVoices(lang: string) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    const synth = window.speechSynthesis;
+    if (!synth) return;
+    // Chrome loads the list asynchronously
+    const update = () => setVoices(synth.getVoices());
+    update();
+    synth.addEventListener('voiceschanged', update);
+    return () => synth.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return useMemo(() => {
+    const primary = lang.split('-')[0].toLowerCase();
+    return voices.filter(v => v.lang.toLowerCase().replace('_', '-').split('-')[0] === primary);
+  }, [voices, lang]);
+}
+
+/**
+ * Custom hook for dubbed playback
+ * Lowers the original soundtrack and speaks each translated cue when
+ * playback reaches its start. A cue too long for its slot is spoken
+ * faster (up to MAX_DUB_RATE); if it still overruns, the video waits
+ * for it at the next cue.
+ */
+export function useDubbing(
+  videoRef: RefObject<HTMLMediaElement | null>,
+  videoUrl: string | null,
+  subtitles: VideoSubtitle[],
+  { enabled, lang, voiceURI, rate, volume, originalVolume, waitForSpeech }: DubbingOptions
+) {
+  const voices = useSpeechVoices(lang);
+  const [speakingCueId, setSpeakingCueId] = useState<string | null>(null);
+  // Read on every tick, so edits and setting changes don't restart playback tracking
+  const settings = { subtitles, lang, voice: voices.find(v => v.voiceURI === voiceURI) ?? null, rate, volume, waitForSpeech };
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Duck the original soundtrack, and restore it afterwards
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !video) return;
+    const previous = video.volume;
+    video.volume = originalVolume;
+    return () => { video.volume = previous; };
+  }, [enabled, videoRef, videoUrl, originalVolume]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const synth = window.speechSynthesis;
+    if (!enabled || !video || !synth) return;
+
+    let lastCueId: string | null = null;
+    /** The video was paused by us until the current cue finishes */
+    let holding = false;
+
+    const speak = (cue: VideoSubtitle, next: VideoSubtitle | undefined) => {
+      const { lang, voice, rate, volume } = settingsRef.current;
+      const slot = Math.max(0.5, (next?.startTime ?? cue.endTime) - cue.startTime);
+      const expected = cue.translatedText.length / (CHARS_PER_SECOND * rate);
+
+      const u = new SpeechSynthesisUtterance(cue.translatedText);
+      u.lang = voice?.lang ?? lang;
+      u.voice = voice;
+      u.volume = volume;
+      u.rate = Math.min(MAX_DUB_RATE, Math.max(rate, rate * expected / slot));
+      u.onend = u.onerror = () => {
+        setSpeakingCueId(id => id === cue.id ? null : id);
+        if (holding) {
+          holding = false;
+          video.play().catch(() => { /* */ });
+        }
+      };
+      synth.cancel();
+      synth.speak(u);
+      setSpeakingCueId(cue.id);
+    };
+
+    const tick = () => {
+      if (video.paused) return;
+      const { subtitles: cues, waitForSpeech } = settingsRef.current;
+      const t = video.currentTime;
+      const i = cues.findIndex(c => t >= c.startTime && t < c.endTime);
+      if (i < 0 || cues[i].id === lastCueId || !cues[i].translatedText) return;
+      if (synth.speaking && waitForSpeech) {
+        holding = true;
+        video.pause();
+        return;
+      }
+      lastCueId = cues[i].id;
+      speak(cues[i], cues[i + 1]);
+    };
+
+    // A pause by the user or a jump silences the cue being spoken
+    const stopSpeech = () => {
+      if (holding) return;
+      synth.cancel();
+    };
+    const onSeeking = () => {
+      holding = false;
+      lastCueId = null;
+      synth.cancel();
+    };
+
+    const timer = setInterval(tick, TICK_MS);
+    video.addEventListener('pause', stopSpeech);
+    video.addEventListener('seeking', onSeeking);
+    return () => {
+      clearInterval(timer);
+      video.removeEventListener('pause', stopSpeech);
+      video.removeEventListener('seeking', onSeeking);
+      synth.cancel();
+      setSpeakingCueId(null);
+    };
+  }, [enabled, videoRef, videoUrl]);
+
+  return { voices, speakingCueId };
+}
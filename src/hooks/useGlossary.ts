@@ -0,0 +1,55 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  getGlossary, setGlossary, subscribeGlossary, exportGlossary, parseGlossary,
+  type GlossaryEntry,
+} from '../services/glossary';
+
+/**
+ * Custom hook for editing the user glossary
+ * The glossary itself lives in the glossary service so translation
+ * hooks can enforce it without going through React state
+ */
+export function useGlossary() {
+  const [entries, setEntries] = useState<GlossaryEntry[]>(getGlossary);
+
+  useEffect(() => subscribeGlossary(setEntries), []);
+
+  /** Add a term; an existing term for the same pair and source is updated */
+  const addTerm = useCallback((term: Omit<GlossaryEntry, 'id'>) => {
+    const current = getGlossary();
+    const existing = current.find(e =>
+      e.sourceLang === term.sourceLang && e.targetLang === term.targetLang
+      && e.source.toLowerCase() === term.source.toLowerCase()
+    );
+    if (existing) {
+      setGlossary(current.map(e => e.id === existing.id ? { ...existing, ...term } : e));
+    } else {
+      const id = Date.now().toString(36) + Math.random().toString(36).substring(2);
+      setGlossary([...current, { ...term, id }]);
+    }
+  }, []);
+
+  const updateTerm = useCallback((id: string, changes: Partial<Omit<GlossaryEntry, 'id'>>) => {
+    setGlossary(getGlossary().map(e => e.id === id ? { ...e, ...changes } : e));
+  }, []);
+
+  const removeTerm = useCallback((id: string) => {
+    setGlossary(getGlossary().filter(e => e.id !== id));
+  }, []);
+
+  /** Merge terms from a JSON/CSV file; returns how many were added or updated */
+  const importTerms = useCallback((content: string, sourceLang: string, targetLang: string) => {
+    const terms = parseGlossary(content, sourceLang, targetLang);
+    terms.forEach(addTerm);
+    return terms.length;
+  }, [addTerm]);
+
+  const exportTerms = useCallback((sourceLang?: string, targetLang?: string) => {
+    const list = sourceLang && targetLang
+      ? getGlossary().filter(e => e.sourceLang === sourceLang && e.targetLang === targetLang)
+      : getGlossary();
+    return exportGlossary(list);
+  }, []);
+
+  return { entries, addTerm, updateTerm, removeTerm, importTerms, exportTerms };
+}
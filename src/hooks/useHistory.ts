@@ -1,71 +1,170 @@
-import { useState, useCallback, useEffect } from 'react';
-
-/** History item interface */
-export interface HistoryItem {
-  id: string;
-  sourceText: string;
-  translatedText: string;
-  sourceLang: string;
-  targetLang: string;
-  timestamp: number;
-}
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  queryHistory, countHistory, putHistoryItems, updateHistoryItem, deleteHistoryItem,
+  clearUnpinnedHistory, migrateLegacyHistory, getAllHistory,
+  type HistoryItem, type HistoryQuery,
+} from '../services/historyStore';
+import { serializeHistory, parseHistory, type HistoryFormat } from '../services/historyFormats';
+
+export type { HistoryItem } from '../services/historyStore';
+
+/** Search and filter options for the history drawer */
+export type HistoryFilters = Omit<HistoryQuery, 'offset' | 'limit'>;
 
-const STORAGE_KEY = 'sardor_translator_history';
-const MAX_ITEMS = 10;
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+const NO_FILTERS: HistoryFilters = {};
+
+const sameFilters = (a: HistoryFilters, b: HistoryFilters) =>
+  (Object.keys({ ...a, ...b }) as Array<keyof HistoryFilters>).every(key => a[key] === b[key]);
 
 /**
  * Custom hook for managing translation history
- * Uses localStorage for persistence
+ * Uses IndexedDB for persistence, with search, filters and pagination
  */
 export function useHistory() {
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [count, setCount] = useState(0);
+  const [filters, setFiltersState] = useState<HistoryFilters>(NO_FILTERS);
+  /** Filters as queried: search text trails the input while the user types */
+  const [queryFilters, setQueryFilters] = useState<HistoryFilters>(NO_FILTERS);
+  const [page, setPage] = useState(0);
+  const [ready, setReady] = useState(false);
+  const queryRef = useRef(0);
+  /** Filters the current total was counted for; paging within them doesn't recount */
+  const countedFiltersRef = useRef<HistoryFilters | null>(null);
 
-  // Load history from localStorage on mount
+  // Move the old localStorage history over before the first query
   useEffect(() => {
+    migrateLegacyHistory().finally(() => setReady(true));
+  }, []);
+
+  /** Load the current page; `recount` also recounts the matches (after edits or a filter change) */
+  const reload = useCallback(async (recount = true) => {
+    const queryId = ++queryRef.current;
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored) as HistoryItem[];
-        setHistory(parsed);
+      const [result, all] = await Promise.all([
+        queryHistory({ ...queryFilters, offset: page * PAGE_SIZE, limit: PAGE_SIZE, countTotal: recount }),
+        countHistory(),
+      ]);
+      // A newer query (e.g. the next keystroke in search) wins
+      if (queryId !== queryRef.current) return;
+      setHistory(result.items);
+      if (result.total !== null) {
+        setTotal(result.total);
+        countedFiltersRef.current = queryFilters;
       }
+      setCount(all);
     } catch (err) {
       console.error('[HistoryManager] Load error:', err);
     }
-  }, []);
+  }, [queryFilters, page]);
 
-  // Save to localStorage whenever history changes
-  const persist = useCallback((items: HistoryItem[]) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-    } catch (err) {
-      console.error('[HistoryManager] Save error:', err);
-    }
+  useEffect(() => {
+    if (ready) reload(countedFiltersRef.current !== queryFilters);
+  }, [ready, reload, queryFilters]);
+
+  // Typing in search queries once the user pauses; other filters apply at once
+  useEffect(() => {
+    setQueryFilters(prev => {
+      if (prev.search === filters.search) return filters;
+      const next = { ...filters, search: prev.search };
+      return sameFilters(prev, next) ? prev : next;
+    });
+    const t = setTimeout(() => setQueryFilters(filters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(t);
+  }, [filters]);
+
+  /** Change filters and go back to the first page */
+  const setFilters = useCallback((next: HistoryFilters) => {
+    setFiltersState(next);
+    setPage(0);
   }, []);
 
   /** Add a new translation to history */
-  const addToHistory = useCallback((item: Omit<HistoryItem, 'id' | 'timestamp'>) => {
+  const addToHistory = useCallback(async (item: Omit<HistoryItem, 'id' | 'timestamp'>) => {
     const newItem: HistoryItem = {
       ...item,
       id: Date.now().toString(36) + Math.random().toString(36).substring(2),
       timestamp: Date.now(),
     };
 
-    setHistory(prev => {
-      const updated = [newItem, ...prev].slice(0, MAX_ITEMS);
-      persist(updated);
-      return updated;
-    });
-  }, [persist]);
+    try {
+      await putHistoryItems([newItem]);
+    } catch (err) {
+      console.error('[HistoryManager] Save error:', err);
+    }
+    await reload();
+  }, [reload]);
 
-  /** Clear all history */
-  const clearHistory = useCallback(() => {
-    setHistory([]);
+  /** Pin or unpin an item */
+  const togglePin = useCallback(async (item: HistoryItem) => {
     try {
-      localStorage.removeItem(STORAGE_KEY);
+      await updateHistoryItem(item.id, { pinned: !item.pinned });
+    } catch (err) {
+      console.error('[HistoryManager] Pin error:', err);
+    }
+    await reload();
+  }, [reload]);
+
+  /** Delete a single item */
+  const deleteItem = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryItem(id);
+    } catch (err) {
+      console.error('[HistoryManager] Delete error:', err);
+    }
+    await reload();
+  }, [reload]);
+
+  /** Clear all history except pinned items */
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearUnpinnedHistory();
     } catch (err) {
       console.error('[HistoryManager] Clear error:', err);
     }
+    setPage(0);
+    await reload();
+  }, [reload]);
+
+  /** Whole history as a JSON, CSV or TMX document */
+  const exportHistory = useCallback(async (format: HistoryFormat) => {
+    return serializeHistory(await getAllHistory(), format);
   }, []);
 
-  return { history, addToHistory, clearHistory };
+  /** Merge a history file in, skipping entries that already exist; returns how many were added */
+  const importHistory = useCallback(async (content: string, filename: string) => {
+    const incoming = parseHistory(content, filename);
+    const existing = await getAllHistory();
+    const key = (i: Pick<HistoryItem, 'sourceText' | 'translatedText' | 'sourceLang' | 'targetLang'>) =>
+      `${i.sourceLang}|${i.targetLang}|${i.sourceText.trim()}|${i.translatedText.trim()}`;
+    const seenIds = new Set(existing.map(i => i.id));
+    const seenKeys = new Set(existing.map(key));
+
+    const added: HistoryItem[] = [];
+    for (const item of incoming) {
+      if ((item.id && seenIds.has(item.id)) || seenKeys.has(key(item))) continue;
+      const newItem: HistoryItem = {
+        ...item,
+        id: item.id || Date.now().toString(36) + Math.random().toString(36).substring(2),
+        timestamp: item.timestamp ?? Date.now(),
+      };
+      seenIds.add(newItem.id);
+      seenKeys.add(key(newItem));
+      added.push(newItem);
+    }
+
+    if (added.length > 0) await putHistoryItems(added);
+    await reload();
+    return added.length;
+  }, [reload]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return {
+    history, total, count, filters, setFilters, page, pageCount, setPage,
+    addToHistory, togglePin, deleteItem, clearHistory, reload, exportHistory, importHistory,
+  };
 }
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Custom hook tracking browser connectivity
+ * via navigator.onLine and the online/offline events
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
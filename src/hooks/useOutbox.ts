@@ -0,0 +1,136 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { listOutbox, enqueueOutbox, removeFromOutbox, saveOutboxItem, recordOutboxFailure, type OutboxItem } from '../services/outbox';
+import { getActiveProvider, withCache, translateChunked, isRateLimitError } from '../services/translation';
+import { withGlossary } from '../services/glossary';
+
+/** A queued item after it finally got translated */
+export interface DeliveredTranslation {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+}
+
+/** Worth retrying: no connection, throttling or a server-side failure. Anything else (4xx, unsupported pair) won't fix itself. */
+function isTransientError(err: unknown) {
+  return isRateLimitError(err) || err instanceof TypeError || /HTTP error: 5\d\d/.test(err instanceof Error ? err.message : '');
+}
+
+/**
+ * Custom hook for the offline outbox
+ * Persists requests made without connectivity in IndexedDB and
+ * replays them in order as soon as the browser is back online.
+ * An item that fails is retried with backoff while later ones go ahead.
+ */
+export function useOutbox(isOnline: boolean, onDelivered: (item: DeliveredTranslation) => void) {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const onDeliveredRef = useRef(onDelivered);
+  onDeliveredRef.current = onDelivered;
+  const replayingRef = useRef(false);
+  /** The service asked us to slow down; nothing is sent before this time */
+  const throttledUntilRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await listOutbox());
+    } catch (err) {
+      console.error('[Outbox] Load error:', err);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  /** Queue a translation for later */
+  const enqueue = useCallback(async (item: Omit<OutboxItem, 'id' | 'createdAt'>) => {
+    if (!item.sourceText.trim()) return;
+    try {
+      await enqueueOutbox(item);
+      await refresh();
+    } catch (err) {
+      console.error('[Outbox] Enqueue error:', err);
+    }
+  }, [refresh]);
+
+  /** Translate every item that is due; failures are recorded and skipped */
+  const replay = useCallback(async () => {
+    if (replayingRef.current || Date.now() < throttledUntilRef.current) return;
+    replayingRef.current = true;
+    setIsReplaying(true);
+    try {
+      for (const item of await listOutbox()) {
+        if (!navigator.onLine) break;
+        if (item.failed || (item.retryAt ?? 0) > Date.now()) continue;
+        try {
+          const provider = withGlossary(withCache(getActiveProvider()));
+          const { translatedText, detectedLanguage } = await translateChunked(
+            item.sourceText, item.targetLang,
+            chunk => provider.translate(chunk, item.sourceLang, item.targetLang),
+            { maxBytes: provider.maxQueryBytes }
+          );
+          await removeFromOutbox(item.id);
+          if (translatedText) {
+            onDeliveredRef.current({
+              sourceText: item.sourceText,
+              translatedText,
+              sourceLang: detectedLanguage || item.sourceLang,
+              targetLang: item.targetLang,
+            });
+          }
+        } catch (err) {
+          // Connection dropped mid-way: not the item's fault
+          if (!navigator.onLine) break;
+          console.error('[Outbox] Replay error:', err);
+          const retryAfterMs = isRateLimitError(err) ? err.retryAfterMs : undefined;
+          const updated = await recordOutboxFailure(item, err instanceof Error ? err.message : String(err), !isTransientError(err), retryAfterMs);
+          // Every request would be refused the same way, so the rest wait too
+          if (isRateLimitError(err)) {
+            throttledUntilRef.current = updated.retryAt ?? 0;
+            break;
+          }
+        }
+      }
+    } catch (err) {
+      console.error('[Outbox] Replay error:', err);
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  /** Give every failed item another round of attempts */
+  const retryFailed = useCallback(async () => {
+    try {
+      for (const item of items.filter(i => i.failed)) {
+        await saveOutboxItem({ ...item, attempts: 0, failed: false, retryAt: undefined });
+      }
+    } catch (err) {
+      console.error('[Outbox] Retry error:', err);
+    }
+    await refresh();
+  }, [items, refresh]);
+
+  /** Drop the items that were given up on */
+  const discardFailed = useCallback(async () => {
+    try {
+      for (const item of items.filter(i => i.failed)) await removeFromOutbox(item.id);
+    } catch (err) {
+      console.error('[Outbox] Discard error:', err);
+    }
+    await refresh();
+  }, [items, refresh]);
+
+  // Replay when connectivity returns, and again whenever the next retry is due
+  useEffect(() => {
+    const pending = items.filter(i => !i.failed);
+    if (!isOnline || pending.length === 0) return;
+    const due = Math.max(throttledUntilRef.current, Math.min(...pending.map(i => i.retryAt ?? 0)));
+    const t = setTimeout(replay, Math.max(0, due - Date.now()));
+    return () => clearTimeout(t);
+  }, [isOnline, items, replay]);
+
+  const failedItems = items.filter(i => i.failed);
+
+  return { items, failedItems, enqueue, replay, retryFailed, discardFailed, isReplaying };
+}
@@ -10,6 +10,11 @@ interface SpeechCallbacks {
   onError?: (error: string) => void;
 }
 
+interface SpeechOptions {
+  /** Keep listening across pauses, restarting whenever the browser ends the session */
+  continuous?: boolean;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type SpeechRecognitionType = any;
 
@@ -17,10 +22,12 @@ type SpeechRecognitionType = any;
  * Custom hook for Web Speech API SpeechRecognition
  * Handles browser compatibility, interim/final results, and cleanup
  */
-export function useSpeechRecognition(speechCode: string, callbacks: SpeechCallbacks) {
+export function useSpeechRecognition(speechCode: string, callbacks: SpeechCallbacks, { continuous = false }: SpeechOptions = {}) {
   const [status, setStatus] = useState<SpeechStatus>('idle');
   const [isSupported, setIsSupported] = useState(true);
   const recognitionRef = useRef<SpeechRecognitionType>(null);
+  /** Set while continuous listening should survive the end of a session */
+  const keepAliveRef = useRef(false);
   const callbacksRef = useRef(callbacks);
   callbacksRef.current = callbacks;
 
@@ -51,7 +58,7 @@ export function useSpeechRecognition(speechCode: string, callbacks: SpeechCallba
 
     const recognition = new SpeechRecognitionAPI();
     recognition.lang = speechCode || 'en-US';
-    recognition.continuous = false;
+    recognition.continuous = continuous;
     recognition.interimResults = true;
     recognition.maxAlternatives = 1;
 
@@ -84,28 +91,44 @@ export function useSpeechRecognition(speechCode: string, callbacks: SpeechCallba
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     recognition.onerror = (event: any) => {
+      // Silence only ends the session; onend starts the next one
+      if (event.error === 'no-speech' && keepAliveRef.current) return;
       console.error('[SpeechHandler] Error:', event.error);
       if (event.error !== 'aborted') {
+        keepAliveRef.current = false;
         setStatus('error');
         callbacksRef.current.onError?.(event.error);
       }
     };
 
     recognition.onend = () => {
+      // Browsers end even continuous sessions after a pause or a time limit
+      if (keepAliveRef.current && recognitionRef.current === recognition) {
+        try {
+          recognition.start();
+          return;
+        } catch (err) {
+          console.error('[SpeechHandler] Restart error:', err);
+          keepAliveRef.current = false;
+        }
+      }
       setStatus('idle');
     };
 
     recognitionRef.current = recognition;
+    keepAliveRef.current = continuous;
 
     try {
       recognition.start();
     } catch (err) {
       console.error('[SpeechHandler] Start error:', err);
+      keepAliveRef.current = false;
       setStatus('error');
     }
-  }, [speechCode]);
+  }, [speechCode, continuous]);
 
   const stopListening = useCallback(() => {
+    keepAliveRef.current = false;
     if (recognitionRef.current) {
       try {
         recognitionRef.current.stop();
@@ -117,6 +140,7 @@ export function useSpeechRecognition(speechCode: string, callbacks: SpeechCallba
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      keepAliveRef.current = false;
       if (recognitionRef.current) {
         try { recognitionRef.current.abort(); } catch (_e) { /* ignore */ }
       }
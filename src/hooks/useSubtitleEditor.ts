@@ -0,0 +1,108 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { getActiveProvider, withCache, isAbortError } from '../services/translation';
+import { withGlossary } from '../services/glossary';
+import { updateCue, nudgeCue, splitCue, mergeWithNext } from '../services/subtitleEdits';
+import type { VideoSubtitle } from './useVideoTranslation';
+
+const MAX_UNDO = 100;
+
+/**
+ * Custom hook for editing subtitle cues with undo/redo
+ * Every edit goes through `commit`; typing in the same field of the
+ * same cue is coalesced into one undo step. History resets when the
+ * cues are replaced from outside (new transcription or import).
+ */
+export function useSubtitleEditor(subtitles: VideoSubtitle[], onChange: (cues: VideoSubtitle[]) => void) {
+  const [past, setPast] = useState<VideoSubtitle[][]>([]);
+  const [future, setFuture] = useState<VideoSubtitle[][]>([]);
+  const [retranslatingId, setRetranslatingId] = useState<string | null>(null);
+  const lastEmittedRef = useRef<VideoSubtitle[] | null>(null);
+  const lastKeyRef = useRef<string | null>(null);
+  // Latest cues, so edits that finish after an await apply to current state
+  const currentRef = useRef(subtitles);
+  currentRef.current = subtitles;
+
+  useEffect(() => {
+    if (subtitles !== lastEmittedRef.current) {
+      setPast([]);
+      setFuture([]);
+      lastKeyRef.current = null;
+    }
+  }, [subtitles]);
+
+  const emit = useCallback((cues: VideoSubtitle[]) => {
+    lastEmittedRef.current = cues;
+    onChange(cues);
+  }, [onChange]);
+
+  /** Apply an edit to the current cues as one undo step */
+  const commit = useCallback((edit: (cues: VideoSubtitle[]) => VideoSubtitle[], coalesceKey: string | null = null) => {
+    const current = currentRef.current;
+    const next = edit(current);
+    if (next === current) return;
+    if (!coalesceKey || coalesceKey !== lastKeyRef.current) {
+      setPast(prev => [...prev, current].slice(-MAX_UNDO));
+    }
+    lastKeyRef.current = coalesceKey;
+    setFuture([]);
+    currentRef.current = next;
+    emit(next);
+  }, [emit]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+    setPast(past.slice(0, -1));
+    setFuture(prev => [subtitles, ...prev]);
+    lastKeyRef.current = null;
+    emit(previous);
+  }, [past, subtitles, emit]);
+
+  const redo = useCallback(() => {
+    const [next, ...rest] = future;
+    if (!next) return;
+    setFuture(rest);
+    setPast(prev => [...prev, subtitles]);
+    lastKeyRef.current = null;
+    emit(next);
+  }, [future, subtitles, emit]);
+
+  const editText = useCallback((id: string, field: 'originalText' | 'translatedText', value: string) => {
+    // A hand-written translation resolves a failed one
+    const changes = field === 'translatedText' ? { translatedText: value, translationFailed: undefined } : { originalText: value };
+    commit(cues => updateCue(cues, id, changes), `${id}:${field}`);
+  }, [commit]);
+
+  const nudge = useCallback((id: string, edge: 'start' | 'end', delta: number) => {
+    commit(cues => nudgeCue(cues, id, edge, delta), `${id}:${edge}`);
+  }, [commit]);
+
+  const split = useCallback((id: string, position: number) => {
+    commit(cues => splitCue(cues, id, position));
+  }, [commit]);
+
+  const merge = useCallback((id: string) => {
+    commit(cues => mergeWithNext(cues, id));
+  }, [commit]);
+
+  /** Translate one cue again, e.g. after its source text was corrected */
+  const retranslate = useCallback(async (id: string, sourceLang: string, targetLang: string) => {
+    const cue = currentRef.current.find(c => c.id === id);
+    if (!cue?.originalText.trim()) return;
+    setRetranslatingId(id);
+    try {
+      const provider = withGlossary(withCache(getActiveProvider()));
+      const { translatedText } = await provider.translate(cue.originalText, sourceLang, targetLang);
+      if (translatedText) commit(cues => updateCue(cues, id, { translatedText, translationFailed: undefined }));
+    } catch (err) {
+      if (!isAbortError(err)) console.error('[SubtitleEditor] Re-translate error:', err);
+    } finally {
+      setRetranslatingId(null);
+    }
+  }, [commit]);
+
+  return {
+    editText, nudge, split, merge, retranslate, retranslatingId,
+    undo, redo, canUndo: past.length > 0, canRedo: future.length > 0,
+  };
+}
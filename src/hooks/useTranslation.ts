@@ -1,28 +1,43 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { getActiveProvider, withCache, translateChunked, abortableDelay, throwIfAborted, isAbortError } from '../services/translation';
+import { withGlossary } from '../services/glossary';
 
 /** Translation status type */
 export type TranslationStatus = 'idle' | 'translating' | 'done' | 'error';
 
-/** Translation result interface */
-interface TranslationResult {
-  translatedText: string;
-  detectedLanguage?: string;
-}
-
 /**
- * Custom hook for handling text translation via MyMemory API
- * Uses retry mechanism (up to 3 attempts) and error handling
+ * Custom hook for handling text translation via the active provider
+ * (through the persistent translation cache)
+ * Long texts are split into sentence-aligned chunks, each with
+ * a retry mechanism (up to 3 attempts) and error handling.
+ * Every call cancels the previous one, so only the latest input
+ * ever updates state; cancelled calls resolve to ''
  */
 export function useTranslation() {
   const [status, setStatus] = useState<TranslationStatus>('idle');
   const [translatedText, setTranslatedText] = useState('');
   const [detectedLang, setDetectedLang] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  /** Abort the in-flight translation; its result will never reach state */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStatus(prev => prev === 'translating' ? 'idle' : prev);
+  }, []);
 
   const translate = useCallback(async (
     text: string, 
     sourceLang: string, 
     targetLang: string
   ): Promise<string> => {
+    // A newer call always supersedes the previous one
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     if (!text.trim()) {
       setTranslatedText('');
       return '';
@@ -30,65 +45,64 @@ export function useTranslation() {
 
     setStatus('translating');
     setDetectedLang(null);
-
-    const langPair = sourceLang === 'auto' 
-      ? `autodetect|${targetLang}` 
-      : `${sourceLang}|${targetLang}`;
-
-    let lastError: Error | null = null;
-
-    // Retry mechanism - up to 3 attempts
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        const url = `https://api.mymemory.translated.net/get?q=${encodeURIComponent(text)}&langpair=${langPair}`;
-        const response = await fetch(url);
-
-        if (!response.ok) {
-          throw new Error(`HTTP error: ${response.status}`);
-        }
-
-        const data = await response.json() as TranslationResult & { 
-          responseStatus: number;
-          responseData: { translatedText: string };
-          matches?: Array<{ segment: string; translation: string; source: string }>;
-        };
-
-        if (data.responseStatus === 200 || data.responseStatus === undefined) {
-          const result = data.responseData.translatedText;
-          setTranslatedText(result);
-          setStatus('done');
-
-          // Try to detect language from matches
-          if (sourceLang === 'auto' && data.matches && data.matches.length > 0) {
-            const sourceMatch = data.matches[0]?.source;
-            if (sourceMatch) {
-              setDetectedLang(sourceMatch);
-            }
+    setProgress(0);
+
+    const provider = withGlossary(withCache(getActiveProvider()));
+
+    // Each chunk gets its own retry budget - up to 3 attempts
+    const translateChunk = async (chunk: string) => {
+      let lastError: Error | null = null;
+      for (let attempt = 0; attempt < 3; attempt++) {
+        throwIfAborted(signal);
+        try {
+          return await provider.translate(chunk, sourceLang, targetLang, { signal });
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          lastError = err instanceof Error ? err : new Error(String(err));
+          // No point retrying without a network; the caller can queue it instead
+          if (!navigator.onLine) break;
+          // Wait before retry (exponential backoff), cut short by cancellation
+          if (attempt < 2) {
+            await abortableDelay(1000 * (attempt + 1), signal);
           }
-
-          return result;
-        } else {
-          throw new Error(`API error: ${data.responseStatus}`);
-        }
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-        // Wait before retry (exponential backoff)
-        if (attempt < 2) {
-          await new Promise(r => setTimeout(r, 1000 * (attempt + 1)));
         }
       }
-    }
+      throw lastError;
+    };
+
+    try {
+      const { translatedText: result, detectedLanguage } = await translateChunked(
+        text, targetLang, translateChunk,
+        { maxBytes: provider.maxQueryBytes, onProgress: (done, total) => { if (!signal.aborted) setProgress(done / total); } }
+      );
+      if (signal.aborted) return '';
+      abortRef.current = null;
+      setTranslatedText(result);
+      setStatus('done');
+
+      if (sourceLang === 'auto' && detectedLanguage) {
+        setDetectedLang(detectedLanguage);
+      }
 
-    setStatus('error');
-    console.error('[TranslationService] All retry attempts failed:', lastError);
-    return '';
+      return result;
+    } catch (err) {
+      // Cancelled calls stay silent; whoever superseded them owns the state now
+      if (signal.aborted || isAbortError(err)) return '';
+      abortRef.current = null;
+      setStatus('error');
+      console.error('[TranslationService] All retry attempts failed:', err);
+      return '';
+    }
   }, []);
 
   const clearTranslation = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setTranslatedText('');
     setStatus('idle');
     setDetectedLang(null);
+    setProgress(0);
   }, []);
 
-  return { translate, translatedText, status, detectedLang, clearTranslation, setTranslatedText };
+  return { translate, cancel, translatedText, status, detectedLang, progress, clearTranslation, setTranslatedText };
 }
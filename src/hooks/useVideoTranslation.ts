@@ -1,32 +1,136 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { getActiveProvider, withCache, translateChunked, isAbortError, runPool, type TranslationProvider } from '../services/translation';
+import { withGlossary } from '../services/glossary';
+import { parseSubtitles, type SubtitleFormat, type VideoSubtitle } from '../services/subtitles';
+import { getMediaKind, type MediaKind } from '../services/media';
+import { openAudio } from '../services/transcription/audio';
+import { transcribeWithWhisper, type TranscriptSegment } from '../services/transcription/whisper';
+import { mediaFileKey, loadCheckpoint, saveCheckpoint, clearCheckpoint } from '../services/transcriptCheckpoints';
 
-export type VideoStatus = 'idle' | 'loading' | 'ready' | 'extracting' | 'translating' | 'done' | 'error';
+export type { VideoSubtitle } from '../services/subtitles';
 
-export interface VideoSubtitle {
-  id: string;
-  startTime: number;
-  endTime: number;
-  originalText: string;
-  translatedText: string;
+/** `paused`: a transcription was paused or stopped part way and can be resumed */
+export type VideoStatus = 'idle' | 'loading' | 'ready' | 'extracting' | 'paused' | 'translating' | 'done' | 'error';
+
+/** Subtitle file the cues were imported from */
+export interface SubtitleFileInfo {
+  name: string;
+  format: SubtitleFormat;
+}
+
+/** Subtitle translation tuning, from the settings panel */
+export interface CueTranslationOptions {
+  /** Requests in flight at once */
+  concurrency: number;
+}
+
+export const DEFAULT_CUE_CONCURRENCY = 4;
+
+/**
+ * How speech is turned into text: the browser's Web Speech service
+ * (plays the video, listens on the microphone) or Whisper running
+ * offline in the page (decodes the file, nothing played aloud)
+ */
+export type TranscriptionEngine = 'webspeech' | 'whisper';
+
+const segmentsToCues = (segments: TranscriptSegment[], firstIndex = 0): VideoSubtitle[] =>
+  segments.map((s, i) => ({
+    id: `sub-${firstIndex + i}`,
+    startTime: s.start,
+    endTime: s.end,
+    originalText: s.text,
+    translatedText: '',
+  }));
+
+/**
+ * Translate cues through a bounded pool. `onUpdate` receives a fresh
+ * array each time a cue settles; failed cues keep an empty translation
+ * and are flagged instead of silently falling back to the original.
+ */
+async function translateCues(
+  cues: VideoSubtitle[],
+  provider: TranslationProvider,
+  sourceLang: string,
+  targetLang: string,
+  { concurrency, signal, onUpdate, onRateLimit }: CueTranslationOptions & {
+    signal: AbortSignal;
+    onUpdate: (cues: VideoSubtitle[], settled: number) => void;
+    onRateLimit?: (waitMs: number) => void;
+  }
+): Promise<VideoSubtitle[]> {
+  let current: VideoSubtitle[] = cues.map(c => ({ ...c, translatedText: '', translationFailed: undefined }));
+  let settled = 0;
+
+  await runPool(
+    current,
+    cue => provider.translate(cue.originalText, sourceLang, targetLang, { signal }),
+    (index, result) => {
+      if (!result.ok) console.error('[VideoTranslation] Cue translation error:', result.error);
+      current = current.map((c, i) => i !== index ? c : result.ok
+        ? { ...c, translatedText: result.value.translatedText, translationFailed: !result.value.translatedText || undefined }
+        : { ...c, translationFailed: true });
+      settled++;
+      onUpdate(current, settled);
+    },
+    { concurrency, signal, onRateLimit }
+  );
+  return current;
 }
 
 /**
  * Custom hook for video translation
  * Extracts audio from video, uses Speech Recognition to transcribe,
- * then translates the transcription
+ * then translates the transcription. Existing SRT/VTT subtitles can
+ * be imported instead and translated cue by cue.
  */
 export function useVideoTranslation() {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoName, setVideoName] = useState('');
+  const [mediaKind, setMediaKind] = useState<MediaKind>('video');
   const [status, setStatus] = useState<VideoStatus>('idle');
   const [progress, setProgress] = useState(0);
   const [originalText, setOriginalText] = useState('');
   const [translatedText, setTranslatedText] = useState('');
   const [subtitles, setSubtitles] = useState<VideoSubtitle[]>([]);
   const [errorMsg, setErrorMsg] = useState('');
-  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [subtitleFile, setSubtitleFile] = useState<SubtitleFileInfo | null>(null);
+  /** Set while cue translation waits out a provider rate limit */
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  /** Whisper model download progress (0–1), null when not downloading */
+  const [modelProgress, setModelProgress] = useState<number | null>(null);
+  /** The <video> or, for audio files, <audio> player */
+  const videoRef = useRef<HTMLMediaElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recognitionRef = useRef<ReturnType<typeof createRecognition> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const mediaFileRef = useRef<File | null>(null);
+  const subtitlesRef = useRef<VideoSubtitle[]>([]);
+  /** Seconds transcribed so far in an unfinished transcription of the loaded file */
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+  const resumePositionRef = useRef<number | null>(null);
+  /** Ends the live Web Speech session: true translates what was heard, false just stops */
+  const endSessionRef = useRef<((finished: boolean) => void) | null>(null);
+
+  useEffect(() => { subtitlesRef.current = subtitles; }, [subtitles]);
+
+  /** Remember how far transcription got, in state and in the file's checkpoint */
+  const saveProgress = useCallback((cues: VideoSubtitle[], position: number) => {
+    resumePositionRef.current = position;
+    setResumePosition(position);
+    const file = mediaFileRef.current;
+    if (!file) return;
+    saveCheckpoint({ key: mediaFileKey(file), fileName: file.name, position, cues })
+      .catch(err => console.error('[VideoTranslation] Checkpoint save error:', err));
+  }, []);
+
+  const forgetProgress = useCallback(() => {
+    resumePositionRef.current = null;
+    setResumePosition(null);
+    const file = mediaFileRef.current;
+    if (!file) return;
+    clearCheckpoint(mediaFileKey(file))
+      .catch(err => console.error('[VideoTranslation] Checkpoint clear error:', err));
+  }, []);
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   function createRecognition(): any {
@@ -39,38 +143,218 @@ export function useVideoTranslation() {
 
   /** Load a video file */
   const loadVideo = useCallback((file: File) => {
-    // Validate file type
-    if (!file.type.startsWith('video/')) {
-      setErrorMsg('Faqat video fayllar qo\'llab-quvvatlanadi');
-      setStatus('error');
-      return;
-    }
-
-    // Max 100MB
-    if (file.size > 100 * 1024 * 1024) {
-      setErrorMsg('Video hajmi 100MB dan katta bo\'lmasligi kerak');
+    // Validate file type; there is no size limit, large files are streamed
+    const kind = getMediaKind(file);
+    if (!kind) {
+      setErrorMsg('Faqat video va audio fayllar qo\'llab-quvvatlanadi');
       setStatus('error');
       return;
     }
 
     setStatus('loading');
-    setProgress(0);
-    setOriginalText('');
-    setTranslatedText('');
-    setSubtitles([]);
     setErrorMsg('');
     setVideoName(file.name);
+    setMediaKind(kind);
+    // Imported subtitles belong to this video; keep them
+    if (!subtitleFile) {
+      setProgress(0);
+      setOriginalText('');
+      setTranslatedText('');
+      setSubtitles([]);
+    }
 
-    // Create object URL for video
+    // Create object URL for video; the file itself is kept for offline transcription
+    mediaFileRef.current = file;
+    resumePositionRef.current = null;
+    setResumePosition(null);
     const url = URL.createObjectURL(file);
     setVideoUrl(url);
     setStatus('ready');
+
+    // Pick up where an earlier transcription of the same file stopped
+    if (subtitleFile) return;
+    loadCheckpoint(mediaFileKey(file))
+      .then(checkpoint => {
+        if (!checkpoint || mediaFileRef.current !== file) return;
+        resumePositionRef.current = checkpoint.position;
+        setResumePosition(checkpoint.position);
+        setSubtitles(checkpoint.cues);
+        setOriginalText(checkpoint.cues.map(c => c.originalText).join(' '));
+        setStatus('paused');
+      })
+      .catch(err => console.error('[VideoTranslation] Checkpoint load error:', err));
+  }, [subtitleFile]);
+
+  /** Load an SRT/VTT file, alone or alongside the video */
+  const loadSubtitles = useCallback(async (file: File) => {
+    try {
+      const { format, cues } = parseSubtitles(await file.text(), file.name);
+      setSubtitleFile({ name: file.name, format });
+      setSubtitles(cues);
+      setOriginalText(cues.map(c => c.originalText).join(' '));
+      setTranslatedText('');
+      setProgress(0);
+      setErrorMsg('');
+      setStatus('ready');
+    } catch (err) {
+      console.error('[VideoTranslation] Subtitle parse error:', err);
+      setErrorMsg('Subtitr faylini o\'qib bo\'lmadi (SRT yoki VTT kerak)');
+      setStatus('error');
+    }
   }, []);
 
-  /** Extract and transcribe audio from the video using Web Speech API */
+  /** Translate every imported cue; timings are left untouched */
+  const translateSubtitles = useCallback(async (sourceLang: string, targetLang: string, options: CueTranslationOptions) => {
+    if (subtitles.length === 0) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setStatus('translating');
+    setProgress(0);
+    setTranslatedText('');
+
+    const provider = withGlossary(withCache(getActiveProvider()));
+
+    try {
+      const translatedSubs = await translateCues(subtitles, provider, sourceLang, targetLang, {
+        ...options,
+        signal,
+        onUpdate: (cues, settled) => {
+          setSubtitles(cues);
+          setProgress((settled / cues.length) * 100);
+          setRateLimitedUntil(null);
+        },
+        onRateLimit: wait => setRateLimitedUntil(Date.now() + wait),
+      });
+      setTranslatedText(translatedSubs.map(c => c.translatedText).filter(Boolean).join(' '));
+      setStatus('done');
+    } catch (err) {
+      // Stopped by the user: stopProcessing already reset the status
+      if (isAbortError(err)) return;
+      console.error('[VideoTranslation] Error:', err);
+      setErrorMsg('Tarjima xatosi');
+      setStatus('error');
+    } finally {
+      setRateLimitedUntil(null);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [subtitles]);
+
+  /** Translate one cue again, e.g. one that failed */
+  const retryCue = useCallback(async (id: string, sourceLang: string, targetLang: string) => {
+    const cue = subtitles.find(c => c.id === id);
+    if (!cue) return;
+    const markCue = (changes: Partial<VideoSubtitle>) => setSubtitles(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+    try {
+      const provider = withGlossary(withCache(getActiveProvider()));
+      const { translatedText: cueTranslation } = await provider.translate(cue.originalText, sourceLang, targetLang);
+      markCue({ translatedText: cueTranslation, translationFailed: !cueTranslation || undefined });
+    } catch (err) {
+      console.error('[VideoTranslation] Cue retry error:', err);
+      markCue({ translationFailed: true });
+    }
+  }, [subtitles]);
+
+  /**
+   * Translate a finished transcription: the full text in sentence-aligned
+   * chunks (85–90%), then every cue through the pool (90–100%).
+   * Resolves false when the user stopped it or it failed; on failure the
+   * untranslated cues are marked failed so they can be retried.
+   */
+  const translateTranscript = useCallback(async (
+    fullTranscript: string,
+    subs: VideoSubtitle[],
+    sourceLang: string,
+    targetLang: string,
+    options: CueTranslationOptions
+  ) => {
+    setStatus('translating');
+
+    const provider = withGlossary(withCache(getActiveProvider()));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    let latest = subs;
+
+    try {
+      // Translate the full transcript in sentence-aligned chunks
+      const { translatedText: fullTranslation } = await translateChunked(
+        fullTranscript.trim(), targetLang,
+        chunk => provider.translate(chunk, sourceLang, targetLang, { signal }),
+        { maxBytes: provider.maxQueryBytes, onProgress: (done, total) => setProgress(85 + (done / total) * 5) }
+      );
+      if (fullTranslation) {
+        setTranslatedText(fullTranslation);
+      }
+
+      // Translate every subtitle through the pool
+      setProgress(90);
+      await translateCues(subs, provider, sourceLang, targetLang, {
+        ...options,
+        signal,
+        onUpdate: (cues, settled) => {
+          latest = cues;
+          setSubtitles(cues);
+          setProgress(90 + (settled / cues.length) * 10);
+          setRateLimitedUntil(null);
+        },
+        onRateLimit: wait => setRateLimitedUntil(Date.now() + wait),
+      });
+    } catch (err) {
+      // Stopped by the user: stopProcessing already reset the status
+      if (isAbortError(err)) return false;
+      console.error('[VideoTranslation] Transcript translation error:', err);
+      setSubtitles(latest.map(c => c.translatedText ? c : { ...c, translationFailed: true }));
+      setErrorMsg('Tarjima xatosi');
+      setStatus('error');
+      return false;
+    } finally {
+      setRateLimitedUntil(null);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+    return true;
+  }, []);
+
+  /**
+   * Translate finished (or cut short) transcription results and close the session.
+   * The checkpoint is only dropped once the translation went through.
+   */
+  const completeTranscription = useCallback(async (
+    cues: VideoSubtitle[],
+    sourceLang: string,
+    targetLang: string,
+    options: CueTranslationOptions,
+    emptyMessage: string
+  ) => {
+    setProgress(85);
+    const fullTranscript = cues.map(c => c.originalText).join(' ');
+    if (fullTranscript.trim()) {
+      setOriginalText(fullTranscript);
+      if (!await translateTranscript(fullTranscript, cues, sourceLang, targetLang, options)) return;
+    } else {
+      setOriginalText(emptyMessage);
+    }
+
+    forgetProgress();
+    setProgress(100);
+    setStatus('done');
+  }, [translateTranscript, forgetProgress]);
+
+  /**
+   * Extract and transcribe audio from the video using Web Speech API.
+   * The session follows the player: pausing stops listening and saves a
+   * checkpoint, playing resumes, and seeking drops the cues after the new
+   * position so they are heard again. It ends (and translates) when the
+   * video ends or finishTranscription is called.
+   */
   const extractAndTranscribe = useCallback(async (
     sourceLang: string,
-    targetLang: string
+    targetLang: string,
+    options: CueTranslationOptions,
+    from = 0
   ) => {
     if (!videoRef.current) {
       setErrorMsg('Video element topilmadi');
@@ -78,13 +362,25 @@ export function useVideoTranslation() {
       return;
     }
 
+    const video = videoRef.current;
+
+    // A live session just moves to the new position and carries on
+    if (endSessionRef.current) {
+      if (Math.abs(video.currentTime - from) > 0.5) video.currentTime = from;
+      video.play().catch(() => { /* */ });
+      return;
+    }
+
+    // Cues before the starting point are kept; the rest is transcribed again
+    let subs = subtitlesRef.current.filter(c => c.startTime < from);
+    const heardText = () => subs.map(c => c.originalText).join(' ');
+
     setStatus('extracting');
     setProgress(10);
-    setOriginalText('');
+    setErrorMsg('');
+    setOriginalText(heardText());
     setTranslatedText('');
-    setSubtitles([]);
-
-    const video = videoRef.current;
+    setSubtitles(subs);
 
     try {
       // Try to capture audio from video element
@@ -124,9 +420,7 @@ export function useVideoTranslation() {
 
       recognitionRef.current = recognition;
       
-      let fullTranscript = '';
-      const subs: VideoSubtitle[] = [];
-      let segmentStart = 0;
+      let segmentStart = from;
       
       recognition.onresult = (event: { resultIndex: number; results: { length: number; [key: number]: { isFinal: boolean; [key: number]: { transcript: string } } } }) => {
         let interim = '';
@@ -134,23 +428,23 @@ export function useVideoTranslation() {
         for (let i = event.resultIndex; i < event.results.length; i++) {
           const transcript = event.results[i][0].transcript;
           if (event.results[i].isFinal) {
-            fullTranscript += transcript + ' ';
             const currentTime = video.currentTime;
-            subs.push({
+            subs = [...subs, {
               id: `sub-${Date.now()}-${i}`,
               startTime: segmentStart,
               endTime: currentTime,
               originalText: transcript.trim(),
               translatedText: '',
-            });
+            }];
             segmentStart = currentTime;
+            saveProgress(subs, currentTime);
           } else {
             interim = transcript;
           }
         }
         
-        setOriginalText(fullTranscript + (interim ? `[${interim}]` : ''));
-        setSubtitles([...subs]);
+        setOriginalText(heardText() + (interim ? ` [${interim}]` : ''));
+        setSubtitles(subs);
         setProgress(Math.min(80, 20 + (video.currentTime / video.duration) * 60));
       };
 
@@ -167,8 +461,31 @@ export function useVideoTranslation() {
         }
       };
 
+      const onPlay = () => {
+        segmentStart = video.currentTime;
+        setStatus('extracting');
+        try { recognition.start(); } catch { /* already listening */ }
+      };
+      const onPause = () => {
+        if (video.ended) return;
+        try { recognition.stop(); } catch { /* */ }
+        saveProgress(subs, video.currentTime);
+        setStatus('paused');
+      };
+      // Speech heard before the jump must not end up in a cue after it
+      const onSeeking = () => {
+        try { recognition.abort(); } catch { /* */ }
+      };
+      const onSeeked = () => {
+        subs = subs.filter(c => c.startTime < video.currentTime);
+        segmentStart = video.currentTime;
+        setSubtitles(subs);
+        setOriginalText(heardText());
+        saveProgress(subs, video.currentTime);
+      };
+
       // Start playback and recognition
-      video.currentTime = 0;
+      video.currentTime = from;
       video.volume = 1;
       
       try {
@@ -189,76 +506,130 @@ export function useVideoTranslation() {
 
       await video.play();
       recognition.start();
+      video.addEventListener('play', onPlay);
+      video.addEventListener('pause', onPause);
+      video.addEventListener('seeking', onSeeking);
+      video.addEventListener('seeked', onSeeked);
 
-      // Wait for video to end
-      await new Promise<void>((resolve) => {
-        video.onended = () => {
-          video.onended = null;
-          resolve();
-        };
-        video.onpause = () => {
-          // If paused manually, also resolve
-        };
+      // Wait until the video ends or the session is finished or stopped
+      const finished = await new Promise<boolean>((resolve) => {
+        endSessionRef.current = resolve;
+        video.onended = () => resolve(true);
       });
 
-      // Stop recognition
+      endSessionRef.current = null;
+      video.onended = null;
+      video.removeEventListener('play', onPlay);
+      video.removeEventListener('pause', onPause);
+      video.removeEventListener('seeking', onSeeking);
+      video.removeEventListener('seeked', onSeeked);
+      recognition.onend = null;
       try { recognition.stop(); } catch { /* */ }
-      
-      setProgress(85);
-      
-      // Now translate the full transcript
-      if (fullTranscript.trim()) {
-        setStatus('translating');
-        
-        const langPair = sourceLang === 'auto' 
-          ? `autodetect|${targetLang}` 
-          : `${sourceLang}|${targetLang}`;
-
-        try {
-          // Translate full text
-          const url = `https://api.mymemory.translated.net/get?q=${encodeURIComponent(fullTranscript.trim().substring(0, 500))}&langpair=${langPair}`;
-          const res = await fetch(url);
-          const data = await res.json();
-          
-          if (data.responseData?.translatedText) {
-            setTranslatedText(data.responseData.translatedText);
-          }
+      video.pause();
 
-          // Translate each subtitle
-          setProgress(90);
-          const translatedSubs = [...subs];
-          for (let i = 0; i < Math.min(translatedSubs.length, 20); i++) {
-            try {
-              const subUrl = `https://api.mymemory.translated.net/get?q=${encodeURIComponent(translatedSubs[i].originalText)}&langpair=${langPair}`;
-              const subRes = await fetch(subUrl);
-              const subData = await subRes.json();
-              if (subData.responseData?.translatedText) {
-                translatedSubs[i].translatedText = subData.responseData.translatedText;
-              }
-              setProgress(90 + (i / translatedSubs.length) * 10);
-            } catch {
-              translatedSubs[i].translatedText = translatedSubs[i].originalText;
-            }
-          }
-          setSubtitles(translatedSubs);
-        } catch {
-          setErrorMsg('Tarjima xatosi');
-        }
-      } else {
-        setOriginalText('Videoda ovoz aniqlanmadi. Videoni ovoz chiqarib tinglating.');
-      }
+      // Stopped: what was heard stays in the checkpoint
+      if (!finished) return;
 
-      setProgress(100);
-      setStatus('done');
+      saveProgress(subs, video.currentTime);
+      await completeTranscription(subs, sourceLang, targetLang, options, 'Videoda ovoz aniqlanmadi. Videoni ovoz chiqarib tinglating.');
     } catch (err) {
+      endSessionRef.current = null;
       console.error('[VideoTranslation] Error:', err);
       setErrorMsg('Video qayta ishlashda xatolik yuz berdi');
       setStatus('error');
     }
-  }, []);
+  }, [completeTranscription, saveProgress]);
+
+  /**
+   * Transcribe the loaded file offline with Whisper (WASM, in a worker)
+   * from `from` seconds on, and translate it. Cues get the model's real
+   * timestamps and are checkpointed after every window.
+   */
+  const transcribeOffline = useCallback(async (
+    sourceLang: string,
+    targetLang: string,
+    options: CueTranslationOptions & { model: string },
+    from = 0
+  ) => {
+    const file = mediaFileRef.current;
+    if (!file) {
+      setErrorMsg('Media fayl topilmadi');
+      setStatus('error');
+      return;
+    }
+
+    // A run still in flight would keep writing cues
+    abortRef.current?.abort();
+
+    // Cues before the starting point are kept; the rest is transcribed again
+    const kept = subtitlesRef.current.filter(c => c.startTime < from);
+    let cues = kept;
+
+    setStatus('extracting');
+    setProgress(5);
+    setErrorMsg('');
+    setOriginalText(kept.map(c => c.originalText).join(' '));
+    setTranslatedText('');
+    setSubtitles(kept);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const audio = await openAudio(file);
+      setProgress(10);
+      await transcribeWithWhisper(audio, {
+        model: options.model,
+        language: sourceLang === 'auto' ? undefined : sourceLang,
+        start: from,
+        signal: controller.signal,
+        onModelProgress: p => setModelProgress(p < 1 ? p : null),
+        onSegments: found => {
+          setModelProgress(null);
+          cues = [...kept, ...segmentsToCues(found, kept.length)];
+          setSubtitles(cues);
+          setOriginalText(cues.map(c => c.originalText).join(' '));
+        },
+        onProgress: (done, total) => {
+          saveProgress(cues, done);
+          if (Number.isFinite(total)) setProgress(10 + Math.min(1, done / total) * 75);
+        },
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('[VideoTranslation] Whisper error:', err);
+      setErrorMsg(err instanceof DOMException && err.name === 'EncodingError'
+        ? 'Fayldagi ovozni o\'qib bo\'lmadi'
+        : 'Oflayn ovoz tanishda xatolik yuz berdi');
+      setStatus('error');
+      return;
+    } finally {
+      setModelProgress(null);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+
+    await completeTranscription(cues, sourceLang, targetLang, options, 'Faylda nutq aniqlanmadi.');
+  }, [completeTranscription, saveProgress]);
+
+  /**
+   * Stop transcribing now and translate what has been transcribed so far,
+   * whether the run is live, paused or was restored from a checkpoint
+   */
+  const finishTranscription = useCallback(async (sourceLang: string, targetLang: string, options: CueTranslationOptions) => {
+    // A live Web Speech session translates from inside extractAndTranscribe
+    if (endSessionRef.current) {
+      endSessionRef.current(true);
+      return;
+    }
+    abortRef.current?.abort();
+    await completeTranscription(subtitlesRef.current, sourceLang, targetLang, options, 'Nutq aniqlanmadi.');
+  }, [completeTranscription]);
 
-  /** Stop current processing */
+  /** Stop current processing; transcribed cues stay checkpointed and can be resumed */
   const stopProcessing = useCallback(() => {
+    endSessionRef.current?.(false);
+    abortRef.current?.abort();
+    abortRef.current = null;
     if (recognitionRef.current) {
       try { recognitionRef.current.stop(); } catch { /* */ }
     }
@@ -268,8 +639,8 @@ export function useVideoTranslation() {
     if (videoRef.current) {
       videoRef.current.pause();
     }
-    setStatus(videoUrl ? 'ready' : 'idle');
-  }, [videoUrl]);
+    setStatus(resumePositionRef.current !== null ? 'paused' : videoUrl || subtitleFile ? 'ready' : 'idle');
+  }, [videoUrl, subtitleFile]);
 
   /** Clear everything */
   const clearVideo = useCallback(() => {
@@ -278,12 +649,17 @@ export function useVideoTranslation() {
       URL.revokeObjectURL(videoUrl);
     }
     setVideoUrl(null);
+    // The checkpoint itself stays, for when the file is opened again
+    mediaFileRef.current = null;
+    resumePositionRef.current = null;
+    setResumePosition(null);
     setVideoName('');
     setStatus('idle');
     setProgress(0);
     setOriginalText('');
     setTranslatedText('');
     setSubtitles([]);
+    setSubtitleFile(null);
     setErrorMsg('');
   }, [videoUrl, stopProcessing]);
 
@@ -297,15 +673,26 @@ export function useVideoTranslation() {
   return {
     videoUrl,
     videoName,
+    mediaKind,
     status,
     progress,
     originalText,
     translatedText,
     subtitles,
+    setSubtitles,
     errorMsg,
+    subtitleFile,
+    rateLimitedUntil,
+    modelProgress,
+    resumePosition,
     videoRef,
     loadVideo,
+    loadSubtitles,
+    translateSubtitles,
+    retryCue,
     extractAndTranscribe,
+    transcribeOffline,
+    finishTranscription,
     stopProcessing,
     clearVideo,
     formatTime,
@@ -0,0 +1,203 @@
+import { useState, useCallback } from 'react';
+import type { DictEntry } from './useDictionary';
+import { newReviewState, scheduleReview, type ReviewState, type ReviewGrade } from '../services/srs';
+
+/** A saved word in the vocabulary notebook */
+export interface VocabEntry extends DictEntry {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  deckId?: string;
+  tags: string[];
+  note: string;
+  createdAt: number;
+  review: ReviewState;
+}
+
+/** User-defined group of words */
+export interface VocabDeck {
+  id: string;
+  name: string;
+}
+
+export type VocabSort = 'newest' | 'oldest' | 'alpha' | 'due';
+
+export interface VocabFilters {
+  search?: string;
+  deckId?: string;
+  tag?: string;
+  /** `${sourceLang}|${targetLang}` */
+  pair?: string;
+  sort?: VocabSort;
+}
+
+/** Entry fields that can be edited after saving */
+export type VocabChanges = Partial<Pick<VocabEntry, 'translation' | 'deckId' | 'tags' | 'note'>>;
+
+const WORDS_KEY = 'sardor_saved_words';
+const DECKS_KEY = 'sardor_decks';
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+/** Duplicate rule: same word and translation within a language pair */
+export function isSameWord(a: Pick<VocabEntry, 'word' | 'translation' | 'sourceLang' | 'targetLang'>, b: typeof a) {
+  return a.word === b.word && a.translation === b.translation
+    && a.sourceLang === b.sourceLang && a.targetLang === b.targetLang;
+}
+
+function persist(key: string, value: unknown) {
+  try { localStorage.setItem(key, JSON.stringify(value)); } catch { /* */ }
+}
+
+/**
+ * Bring words saved by older versions (no id, no language pair,
+ * maybe no review state) up to the current shape. The pair of
+ * those words was never recorded, so the app defaults are assumed.
+ */
+function migrate(raw: Array<Partial<VocabEntry> & DictEntry>): VocabEntry[] {
+  const now = Date.now();
+  return raw.map((w, i) => ({
+    ...w,
+    id: w.id ?? newId() + i,
+    sourceLang: w.sourceLang ?? 'en',
+    targetLang: w.targetLang ?? 'uz',
+    tags: w.tags ?? [],
+    note: w.note ?? '',
+    createdAt: w.createdAt ?? now - i,
+    review: w.review ?? newReviewState(),
+  }));
+}
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Apply search, deck/tag/pair filters and sorting */
+export function filterVocabulary(words: VocabEntry[], filters: VocabFilters): VocabEntry[] {
+  const needle = filters.search?.trim().toLowerCase();
+  const result = words.filter(w =>
+    (!filters.deckId || w.deckId === filters.deckId)
+    && (!filters.tag || w.tags.includes(filters.tag))
+    && (!filters.pair || `${w.sourceLang}|${w.targetLang}` === filters.pair)
+    && (!needle || w.word.toLowerCase().includes(needle)
+      || w.translation.toLowerCase().includes(needle)
+      || w.note.toLowerCase().includes(needle))
+  );
+
+  switch (filters.sort ?? 'newest') {
+    case 'newest': return result.sort((a, b) => b.createdAt - a.createdAt);
+    case 'oldest': return result.sort((a, b) => a.createdAt - b.createdAt);
+    case 'alpha': return result.sort((a, b) => a.word.localeCompare(b.word));
+    case 'due': return result.sort((a, b) => a.review.due - b.review.due);
+  }
+}
+
+/**
+ * Custom hook for the vocabulary notebook (saved words)
+ * Words keep their language pair, deck, tags, note and
+ * spaced-repetition state; persisted in localStorage
+ */
+export function useVocabulary() {
+  const [words, setWords] = useState<VocabEntry[]>(() => migrate(load(WORDS_KEY, [])));
+  const [decks, setDecks] = useState<VocabDeck[]>(() => load(DECKS_KEY, []));
+
+  const updateWords = useCallback((updater: (prev: VocabEntry[]) => VocabEntry[]) => {
+    setWords(prev => {
+      const updated = updater(prev);
+      persist(WORDS_KEY, updated);
+      return updated;
+    });
+  }, []);
+
+  /** Save a dictionary entry for a language pair */
+  const saveWord = useCallback((entry: DictEntry, sourceLang: string, targetLang: string) => {
+    updateWords(prev => {
+      const candidate = { ...entry, sourceLang, targetLang };
+      if (prev.some(w => isSameWord(w, candidate))) return prev;
+      return [{
+        ...candidate,
+        id: newId(),
+        tags: [],
+        note: '',
+        createdAt: Date.now(),
+        review: newReviewState(),
+      }, ...prev];
+    });
+  }, [updateWords]);
+
+  /** Remove exactly one saved entry */
+  const removeWord = useCallback((id: string) => {
+    updateWords(prev => prev.filter(w => w.id !== id));
+  }, [updateWords]);
+
+  const updateWord = useCallback((id: string, changes: VocabChanges) => {
+    updateWords(prev => prev.map(w => w.id === id ? { ...w, ...changes } : w));
+  }, [updateWords]);
+
+  /** Record how well a word was remembered and reschedule it (SM-2) */
+  const reviewWord = useCallback((id: string, grade: ReviewGrade) => {
+    updateWords(prev => prev.map(w => w.id === id ? { ...w, review: scheduleReview(w.review, grade) } : w));
+  }, [updateWords]);
+
+  /** Add imported words, skipping duplicates; returns how many were added */
+  const importWords = useCallback((entries: Array<DictEntry & Partial<Pick<VocabEntry, 'sourceLang' | 'targetLang' | 'tags'>>>, sourceLang: string, targetLang: string) => {
+    const fresh: VocabEntry[] = [];
+    const existing = [...words];
+    const now = Date.now();
+    for (const entry of entries) {
+      const candidate = { ...entry, sourceLang: entry.sourceLang ?? sourceLang, targetLang: entry.targetLang ?? targetLang };
+      if (existing.some(w => isSameWord(w, candidate))) continue;
+      const word: VocabEntry = {
+        ...candidate,
+        id: newId() + fresh.length,
+        tags: entry.tags ?? [],
+        note: '',
+        createdAt: now - fresh.length,
+        review: newReviewState(now),
+      };
+      existing.push(word);
+      fresh.push(word);
+    }
+    if (fresh.length > 0) updateWords(prev => [...fresh, ...prev]);
+    return fresh.length;
+  }, [words, updateWords]);
+
+  const isSaved = useCallback((entry: DictEntry, sourceLang: string, targetLang: string) => {
+    return words.some(w => isSameWord(w, { ...entry, sourceLang, targetLang }));
+  }, [words]);
+
+  // ===== DECKS =====
+
+  const addDeck = useCallback((name: string) => {
+    const deck: VocabDeck = { id: newId(), name: name.trim() };
+    setDecks(prev => {
+      const updated = [...prev, deck];
+      persist(DECKS_KEY, updated);
+      return updated;
+    });
+    return deck;
+  }, []);
+
+  /** Delete a deck; its words stay, just without a deck */
+  const removeDeck = useCallback((id: string) => {
+    setDecks(prev => {
+      const updated = prev.filter(d => d.id !== id);
+      persist(DECKS_KEY, updated);
+      return updated;
+    });
+    updateWords(prev => prev.map(w => w.deckId === id ? { ...w, deckId: undefined } : w));
+  }, [updateWords]);
+
+  const allTags = Array.from(new Set(words.flatMap(w => w.tags))).sort();
+
+  return {
+    words, decks, allTags,
+    saveWord, removeWord, updateWord, reviewWord, importWords, isSaved,
+    addDeck, removeDeck,
+  };
+}
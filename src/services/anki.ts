@@ -0,0 +1,130 @@
+import type { DictEntry } from './dictionaryTypes';
+import { parseCsv, csvCell } from '../utils/csv';
+
+/** Language pair a word belongs to, used for the Anki tag */
+export interface WordLangPair {
+  sourceLang: string;
+  targetLang: string;
+}
+
+/** A word read from an import file; the pair comes from its tag when present */
+export type ImportedWord = DictEntry & Partial<WordLangPair> & { tags?: string[] };
+
+const FIELD_SEPARATOR = '\t';
+const TAG_PREFIX = 'sardor';
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+}
+
+function htmlToText(html: string) {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/** Anki tags can't contain spaces: "sardor en-uz" */
+export function pairTag(pair: WordLangPair) {
+  return `${pair.sourceLang}-${pair.targetLang}`;
+}
+
+/**
+ * Anki "Notes in Plain Text" TSV with header directives, so File → Import
+ * picks the separator, HTML and tags column without manual setup.
+ * Fields: word, translation, phonetic, examples, synonyms, tags.
+ */
+export function toAnkiTsv(words: ImportedWord[], fallbackPair: WordLangPair): string {
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#columns:Word\tTranslation\tPhonetic\tExamples\tSynonyms\tTags',
+    '#tags column:6',
+  ];
+
+  for (const w of words) {
+    const pair = w.sourceLang && w.targetLang ? { sourceLang: w.sourceLang, targetLang: w.targetLang } : fallbackPair;
+    lines.push([
+      escapeHtml(w.word),
+      escapeHtml(w.translation),
+      escapeHtml(w.phonetic ?? ''),
+      (w.examples ?? []).map(escapeHtml).join('<br>'),
+      escapeHtml((w.synonyms ?? []).join(', ')),
+      [TAG_PREFIX, pairTag(pair), ...(w.tags ?? []).map(t => t.replace(/\s+/g, '_'))].join(' '),
+    ].map(field => csvCell(field, FIELD_SEPARATOR)).join(FIELD_SEPARATOR));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const PAIR_TAG = /^[a-z]{2,3}-[a-z]{2,3}$/i;
+
+/** Split the tags field into our pair tag and the user's own tags */
+function fromTags(field: string): Pick<ImportedWord, 'sourceLang' | 'targetLang' | 'tags'> {
+  const tags = field.split(/\s+/).filter(Boolean);
+  const pair = tags.find(t => PAIR_TAG.test(t));
+  const userTags = tags.filter(t => t !== pair && t !== TAG_PREFIX);
+  const [sourceLang, targetLang] = pair ? pair.toLowerCase().split('-') : [];
+  return { sourceLang, targetLang, tags: userTags.length > 0 ? userTags : undefined };
+}
+
+/**
+ * Anki quotes fields holding tabs, quotes or line breaks the way CSV does,
+ * so the rows after the header directives are parsed as tab-separated CSV.
+ */
+function fromTsv(content: string): ImportedWord[] {
+  let tagsColumn = 5;
+  const words: ImportedWord[] = [];
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let body = 0;
+  for (; body < lines.length && lines[body].startsWith('#'); body++) {
+    const m = lines[body].match(/^#tags column:(\d+)/);
+    if (m) tagsColumn = Number(m[1]) - 1;
+  }
+
+  for (const fields of parseCsv(lines.slice(body).join('\n'), FIELD_SEPARATOR)) {
+    const [word, translation, phonetic, examples, synonyms] = fields.filter((_, i) => i !== tagsColumn).map(htmlToText);
+    if (!word || !translation) continue;
+
+    words.push({
+      word,
+      translation,
+      phonetic: phonetic || undefined,
+      examples: examples ? examples.split('\n').map(e => e.trim()).filter(Boolean) : undefined,
+      synonyms: synonyms ? synonyms.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+      ...fromTags(fields[tagsColumn] ?? ''),
+    });
+  }
+  return words;
+}
+
+/** Simple "word,translation[,phonetic]" list, with or without a header row */
+function fromCsv(content: string): ImportedWord[] {
+  const rows = parseCsv(content.replace(/^﻿/, ''));
+  if (rows[0] && /^(word|so'?z|term)$/i.test(rows[0][0]?.trim() ?? '')) rows.shift();
+  return rows
+    .map(([word = '', translation = '', phonetic = '']) => ({
+      word: word.trim(),
+      translation: translation.trim(),
+      phonetic: phonetic.trim() || undefined,
+    }))
+    .filter(w => w.word && w.translation);
+}
+
+/** Parse an Anki TSV export or a CSV word list */
+export function parseWordList(content: string, filename: string): ImportedWord[] {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const isTsv = ext === 'tsv' || ext === 'txt' || content.startsWith('#separator:tab') || content.split('\n')[0].includes('\t');
+  return isTsv ? fromTsv(content) : fromCsv(content);
+}
@@ -0,0 +1,103 @@
+/**
+ * Shared IndexedDB database for everything that outgrows localStorage.
+ * Each feature owns one object store; bump DB_VERSION and add a step
+ * to `upgrade` when a new store or index is needed.
+ */
+const DB_NAME = 'sardor';
+const DB_VERSION = 6;
+
+export const STORES = {
+  translationCache: 'translation_cache',
+  outbox: 'outbox',
+  history: 'history',
+  dictPacks: 'dict_packs',
+  dictEntries: 'dict_entries',
+  transcripts: 'transcripts',
+} as const;
+
+function upgrade(db: IDBDatabase, tx: IDBTransaction, oldVersion: number) {
+  if (oldVersion < 1) {
+    const cache = db.createObjectStore(STORES.translationCache, { keyPath: 'key' });
+    cache.createIndex('lastAccess', 'lastAccess');
+  }
+  if (oldVersion < 2) {
+    const outbox = db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+    outbox.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 3) {
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.dictPacks, { keyPath: 'id' });
+    const entries = db.createObjectStore(STORES.dictEntries, { autoIncrement: true });
+    entries.createIndex('packId', 'packId');
+    entries.createIndex('lookup', 'lookup', { multiEntry: true });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.transcripts, { keyPath: 'key' });
+  }
+  if (oldVersion < 6) {
+    // Only pinned items have pinnedAt, so the index lists just them
+    const history = tx.objectStore(STORES.history);
+    history.createIndex('pinned', 'pinnedAt');
+    const cursorRequest = history.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (cursor.value.pinned) cursor.update({ ...cursor.value, pinnedAt: cursor.value.timestamp });
+      cursor.continue();
+    };
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Open (once) the app database */
+export function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade the schema
+        db.onversionchange = () => { db.close(); dbPromise = null; };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+    // Allow a later retry (e.g. after the other tab closes)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+/** Wrap an IDBRequest in a promise */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Resolve when a transaction commits */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Open a transaction on one store */
+export async function getStore(name: string, mode: IDBTransactionMode = 'readonly') {
+  const db = await openDB();
+  const tx = db.transaction(name, mode);
+  return { tx, store: tx.objectStore(name) };
+}
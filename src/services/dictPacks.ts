@@ -0,0 +1,195 @@
+import { STORES, openDB, getStore, promisifyRequest, transactionDone } from './db';
+import type { DictEntry } from './dictionaryTypes';
+
+/**
+ * Offline bilingual dictionary packs.
+ *
+ * A pack is a versioned JSON file the user imports once; its entries are
+ * stored in IndexedDB and looked up before any online source:
+ *
+ *   {
+ *     "format": "sardor-dict", "formatVersion": 1,
+ *     "id": "uz-en-basic", "name": "O'zbekcha–inglizcha", "version": "1.0.0",
+ *     "sourceLang": "uz", "targetLang": "en", "bidirectional": true,
+ *     "entries": [
+ *       { "headword": "kitob", "pos": "ot", "translations": ["book"],
+ *         "examples": [{ "source": "Kitob o'qidim.", "target": "I read a book." }] }
+ *     ]
+ *   }
+ *
+ * Bidirectional packs (the default) also answer target → source lookups
+ * by translation, so one uz–en pack serves both uz→en and en→uz.
+ */
+
+export const PACK_FORMAT = 'sardor-dict';
+export const PACK_FORMAT_VERSION = 1;
+
+/** Installed pack metadata */
+export interface DictPackInfo {
+  id: string;
+  name: string;
+  version: string;
+  sourceLang: string;
+  targetLang: string;
+  bidirectional: boolean;
+  entryCount: number;
+  installedAt: number;
+}
+
+/** Entry as written in a pack file */
+interface PackFileEntry {
+  headword: string;
+  pos?: string;
+  translations: string[];
+  examples?: Array<string | { source: string; target?: string }>;
+}
+
+interface PackFile {
+  format: string;
+  formatVersion: number;
+  id: string;
+  name?: string;
+  version?: string;
+  sourceLang: string;
+  targetLang: string;
+  bidirectional?: boolean;
+  entries: PackFileEntry[];
+}
+
+/** Entry as stored in IndexedDB */
+interface StoredPackEntry {
+  packId: string;
+  packName: string;
+  sourceLang: string;
+  targetLang: string;
+  headword: string;
+  pos?: string;
+  translations: string[];
+  examples: string[];
+  /** `${from}|${to}|${normalized word}` keys for the `lookup` multiEntry index */
+  lookup: string[];
+}
+
+/** Lowercase and unify the many apostrophes used for oʻ / gʻ */
+export function normalizeHeadword(word: string) {
+  return word.trim().toLowerCase().replace(/[ʻʼ‘’`´]/g, "'").replace(/\s+/g, ' ');
+}
+
+const lookupKey = (from: string, to: string, word: string) => `${from}|${to}|${normalizeHeadword(word)}`;
+
+function exampleText(example: string | { source: string; target?: string }) {
+  if (typeof example === 'string') return example;
+  return example.target ? `${example.source} — ${example.target}` : example.source;
+}
+
+/** Validate a pack file; throws with a readable message when it isn't one */
+export function parsePack(content: string): PackFile {
+  const data = JSON.parse(content) as PackFile;
+  if (!data || data.format !== PACK_FORMAT) throw new Error('Not a dictionary pack');
+  if (data.formatVersion > PACK_FORMAT_VERSION) {
+    throw new Error(`Pack format v${data.formatVersion} is newer than supported v${PACK_FORMAT_VERSION}`);
+  }
+  if (!data.id || !data.sourceLang || !data.targetLang || !Array.isArray(data.entries)) {
+    throw new Error('Pack must have id, sourceLang, targetLang and entries');
+  }
+  return data;
+}
+
+/**
+ * Delete every entry of a pack inside an open transaction. Keys are read
+ * up front, so entries added later in the same transaction are kept.
+ */
+function deleteEntries(store: IDBObjectStore, packId: string) {
+  const request = store.index('packId').getAllKeys(packId);
+  request.onsuccess = () => {
+    for (const key of request.result) store.delete(key);
+  };
+}
+
+/** Install (or replace an older copy of) a pack */
+export async function installPack(content: string): Promise<DictPackInfo> {
+  const pack = parsePack(content);
+  const bidirectional = pack.bidirectional ?? true;
+  const info: DictPackInfo = {
+    id: pack.id,
+    name: pack.name || pack.id,
+    version: pack.version || '1',
+    sourceLang: pack.sourceLang,
+    targetLang: pack.targetLang,
+    bidirectional,
+    entryCount: 0,
+    installedAt: Date.now(),
+  };
+
+  const db = await openDB();
+  const tx = db.transaction([STORES.dictPacks, STORES.dictEntries], 'readwrite');
+  const entries = tx.objectStore(STORES.dictEntries);
+  deleteEntries(entries, pack.id);
+
+  for (const e of pack.entries) {
+    const translations = (e.translations ?? []).map(t => t.trim()).filter(Boolean);
+    if (!e.headword?.trim() || translations.length === 0) continue;
+    const lookup = [lookupKey(pack.sourceLang, pack.targetLang, e.headword)];
+    if (bidirectional) lookup.push(...translations.map(t => lookupKey(pack.targetLang, pack.sourceLang, t)));
+
+    const stored: StoredPackEntry = {
+      packId: pack.id,
+      packName: info.name,
+      sourceLang: pack.sourceLang,
+      targetLang: pack.targetLang,
+      headword: e.headword.trim(),
+      pos: e.pos,
+      translations,
+      examples: (e.examples ?? []).map(exampleText).filter(Boolean),
+      lookup: Array.from(new Set(lookup)),
+    };
+    entries.add(stored);
+    info.entryCount++;
+  }
+
+  tx.objectStore(STORES.dictPacks).put(info);
+  await transactionDone(tx);
+  return info;
+}
+
+export async function listPacks(): Promise<DictPackInfo[]> {
+  const { store } = await getStore(STORES.dictPacks);
+  const packs = await promisifyRequest(store.getAll() as IDBRequest<DictPackInfo[]>);
+  return packs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function removePack(id: string): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction([STORES.dictPacks, STORES.dictEntries], 'readwrite');
+  deleteEntries(tx.objectStore(STORES.dictEntries), id);
+  tx.objectStore(STORES.dictPacks).delete(id);
+  await transactionDone(tx);
+}
+
+/** Entries for a word from all installed packs covering the pair, in either direction */
+export async function lookupPacks(word: string, sourceLang: string, targetLang: string): Promise<DictEntry[]> {
+  const { store } = await getStore(STORES.dictEntries);
+  const hits = await promisifyRequest(
+    store.index('lookup').getAll(lookupKey(sourceLang, targetLang, word)) as IDBRequest<StoredPackEntry[]>
+  );
+  const needle = normalizeHeadword(word);
+
+  return hits.map(hit => {
+    if (hit.sourceLang === sourceLang) {
+      return {
+        word: hit.headword,
+        translation: hit.translations.join(', '),
+        partOfSpeech: hit.pos,
+        examples: hit.examples.length > 0 ? hit.examples : undefined,
+        pack: hit.packName,
+      };
+    }
+    // Reverse lookup: the word matched one of the translations
+    return {
+      word: hit.translations.find(t => normalizeHeadword(t) === needle) ?? word,
+      translation: hit.headword,
+      partOfSpeech: hit.pos,
+      pack: hit.packName,
+    };
+  });
+}
@@ -0,0 +1,84 @@
+/** What a spoken command does to the text dictated so far */
+type DictationCommand = { insert: string } | 'deleteWord';
+
+const COMMA = { insert: ',' };
+const PERIOD = { insert: '.' };
+const QUESTION = { insert: '?' };
+const EXCLAMATION = { insert: '!' };
+const NEW_LINE = { insert: '\n' };
+const NEW_PARAGRAPH = { insert: '\n\n' };
+
+/** Spoken editing commands by language, written lower-case with plain apostrophes */
+const COMMANDS: Record<string, Record<string, DictationCommand>> = {
+  uz: {
+    'vergul': COMMA,
+    'nuqta': PERIOD,
+    "so'roq belgisi": QUESTION,
+    'undov belgisi': EXCLAMATION,
+    'yangi qator': NEW_LINE,
+    'yangi xatboshi': NEW_PARAGRAPH,
+    "oxirgi so'zni o'chir": 'deleteWord',
+  },
+  en: {
+    'comma': COMMA,
+    'period': PERIOD,
+    'full stop': PERIOD,
+    'question mark': QUESTION,
+    'exclamation mark': EXCLAMATION,
+    'new line': NEW_LINE,
+    'new paragraph': NEW_PARAGRAPH,
+    'delete last word': 'deleteWord',
+  },
+  ru: {
+    'запятая': COMMA,
+    'точка': PERIOD,
+    'вопросительный знак': QUESTION,
+    'восклицательный знак': EXCLAMATION,
+    'новая строка': NEW_LINE,
+    'новый абзац': NEW_PARAGRAPH,
+    'удалить последнее слово': 'deleteWord',
+  },
+};
+
+/** Recognisers vary in apostrophes and may attach punctuation of their own */
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[‘’`ʻʼ]/g, "'").replace(/[.,!?;:]+$/, '');
+
+/** A new sentence starts at the beginning, after a full stop and on a new line */
+const startsSentence = (text: string) => !text.trim() || /[.!?]\s*$|\n$/.test(text);
+
+function appendWord(text: string, word: string) {
+  if (startsSentence(text)) word = word.charAt(0).toUpperCase() + word.slice(1);
+  return text + (text && !text.endsWith('\n') ? ' ' : '') + word;
+}
+
+function runCommand(text: string, command: DictationCommand) {
+  if (command === 'deleteWord') return text.replace(/[ \t]*\S+\s*$/, '');
+  return text.replace(/[ \t]+$/, '') + command.insert;
+}
+
+/**
+ * Append a recognised phrase to dictated text, carrying out the spoken
+ * commands of `lang` ("uz" or "uz-UZ") in it, e.g. "vergul", "new line".
+ */
+export function applyDictation(text: string, spoken: string, lang: string): string {
+  const commands = COMMANDS[lang.split('-')[0]] ?? {};
+  // Longest first, so "new paragraph" wins over a shorter phrase it starts with
+  const phrases = Object.keys(commands)
+    .map(phrase => phrase.split(' '))
+    .sort((a, b) => b.length - a.length);
+
+  const words = spoken.split(/\s+/).filter(Boolean);
+  let result = text;
+  for (let i = 0; i < words.length;) {
+    const match = phrases.find(phrase => phrase.every((w, j) => i + j < words.length && normalizeWord(words[i + j]) === w));
+    if (match) {
+      result = runCommand(result, commands[match.join(' ')]);
+      i += match.length;
+    } else {
+      result = appendWord(result, words[i]);
+      i++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,86 @@
+import type { DictPhonetic, DictSense } from './dictionaryTypes';
+
+/** Raw shapes returned by https://dictionaryapi.dev (only the fields we read) */
+interface ApiDefinition {
+  definition?: string;
+  example?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+interface ApiMeaning {
+  partOfSpeech?: string;
+  definitions?: ApiDefinition[];
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+interface ApiEntry {
+  phonetic?: string;
+  phonetics?: Array<{ text?: string; audio?: string }>;
+  meanings?: ApiMeaning[];
+}
+
+export interface EnglishEntry {
+  phonetics: DictPhonetic[];
+  senses: DictSense[];
+}
+
+const API_URL = 'https://api.dictionaryapi.dev/api/v2/entries/en/';
+
+const unique = (items: string[]) => Array.from(new Set(items.filter(Boolean)));
+
+/**
+ * Merge every homograph entry of a dictionaryapi.dev response into one
+ * structured entry: phonetics deduplicated, senses grouped by part of speech.
+ */
+export function parseDictionaryResponse(data: ApiEntry[]): EnglishEntry {
+  const phonetics: DictPhonetic[] = [];
+  const senses = new Map<string, DictSense>();
+
+  const addPhonetic = (text?: string, audio?: string) => {
+    if (!text && !audio) return;
+    // The same pronunciation is often listed once with audio and once without
+    const same = phonetics.find(p => (text && p.text === text && (!audio || !p.audio)) || (audio && p.audio === audio));
+    if (same) {
+      same.text ||= text;
+      same.audio ||= audio;
+    } else {
+      phonetics.push({ text, audio });
+    }
+  };
+
+  for (const entry of data) {
+    for (const p of entry.phonetics ?? []) addPhonetic(p.text, p.audio || undefined);
+    addPhonetic(entry.phonetic);
+
+    for (const meaning of entry.meanings ?? []) {
+      const pos = meaning.partOfSpeech || 'other';
+      const sense = senses.get(pos) ?? { partOfSpeech: pos, definitions: [], synonyms: [], antonyms: [] };
+      for (const d of meaning.definitions ?? []) {
+        if (!d.definition) continue;
+        sense.definitions.push({
+          definition: d.definition,
+          example: d.example || undefined,
+          synonyms: d.synonyms?.length ? d.synonyms : undefined,
+          antonyms: d.antonyms?.length ? d.antonyms : undefined,
+        });
+      }
+      sense.synonyms = unique([...sense.synonyms, ...(meaning.synonyms ?? [])]);
+      sense.antonyms = unique([...sense.antonyms, ...(meaning.antonyms ?? [])]);
+      senses.set(pos, sense);
+    }
+  }
+
+  return { phonetics, senses: Array.from(senses.values()).filter(s => s.definitions.length > 0) };
+}
+
+/** Look up an English word; null when the API has no entry for it */
+export async function fetchEnglishEntry(word: string, signal?: AbortSignal): Promise<EnglishEntry | null> {
+  const res = await fetch(API_URL + encodeURIComponent(word), { signal });
+  if (!res.ok) return null;
+  const data = await res.json();
+  if (!Array.isArray(data) || data.length === 0) return null;
+  const entry = parseDictionaryResponse(data);
+  return entry.senses.length > 0 || entry.phonetics.length > 0 ? entry : null;
+}
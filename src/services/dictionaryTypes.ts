@@ -0,0 +1,38 @@
+/** One pronunciation, optionally with a recording */
+export interface DictPhonetic {
+  text?: string;
+  audio?: string;
+}
+
+export interface DictDefinition {
+  definition: string;
+  example?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+/** All definitions of a word for one part of speech */
+export interface DictSense {
+  partOfSpeech: string;
+  definitions: DictDefinition[];
+  synonyms: string[];
+  antonyms: string[];
+}
+
+/**
+ * Dictionary entry interface
+ * `phonetic`, `examples` and `synonyms` are flat summaries of
+ * `phonetics`/`senses`, kept for saved words and flashcards.
+ */
+export interface DictEntry {
+  word: string;
+  translation: string;
+  partOfSpeech?: string;
+  examples?: string[];
+  synonyms?: string[];
+  phonetic?: string;
+  phonetics?: DictPhonetic[];
+  senses?: DictSense[];
+  /** Name of the offline pack the entry came from */
+  pack?: string;
+}
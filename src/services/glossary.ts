@@ -0,0 +1,172 @@
+import type { TranslationProvider } from './translation';
+import { parseCsv } from '../utils/csv';
+
+/** A protected term and what it must become in the target language */
+export interface GlossaryEntry {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+  caseSensitive?: boolean;
+}
+
+const STORAGE_KEY = 'sardor_glossary';
+
+let entries: GlossaryEntry[] | null = null;
+const listeners = new Set<(entries: GlossaryEntry[]) => void>();
+
+/** Current glossary (loaded from localStorage on first use) */
+export function getGlossary(): GlossaryEntry[] {
+  if (!entries) {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      entries = stored ? JSON.parse(stored) : [];
+    } catch {
+      entries = [];
+    }
+  }
+  return entries!;
+}
+
+/** Replace the glossary, persist it and notify subscribers */
+export function setGlossary(next: GlossaryEntry[]) {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error('[Glossary] Save error:', err);
+  }
+  listeners.forEach(l => l(next));
+}
+
+export function subscribeGlossary(listener: (entries: GlossaryEntry[]) => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Terms that apply to a pair; with 'auto' source every term for the target applies */
+export function termsFor(sourceLang: string, targetLang: string): GlossaryEntry[] {
+  return getGlossary().filter(e =>
+    e.targetLang === targetLang && (sourceLang === 'auto' || e.sourceLang === sourceLang)
+  );
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Placeholders survive MT engines best as bracketed numbers */
+const placeholder = (i: number) => `⟦${i}⟧`;
+
+/** Placeholder `i` exactly, bracketed on both sides; engines may pad it with spaces */
+const exactPlaceholder = (i: number) => new RegExp(`⟦\\s*${i}\\s*⟧`, 'g');
+
+/** Placeholder `i` after an engine swapped or dropped a bracket, never matching part of a longer number */
+const damagedPlaceholder = (i: number) =>
+  new RegExp(`[⟦[]\\s*${i}\\s*[⟧\\]]|⟦\\s*${i}(?!\\d)|(?<!\\d)${i}\\s*⟧`, 'g');
+
+/** A term as a whole word (or phrase) in running text */
+function termRegExp(term: GlossaryEntry) {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term.source.trim())}(?![\\p{L}\\p{N}])`,
+    term.caseSensitive ? 'gu' : 'giu'
+  );
+}
+
+/**
+ * Swap glossary terms for placeholders before translation.
+ * Longer terms win so "Uzbekiston Temir Yo'llari" beats "Uzbekiston".
+ */
+export function protectTerms(text: string, terms: GlossaryEntry[]): { text: string; replacements: string[] } {
+  const replacements: string[] = [];
+  let protectedText = text;
+  const sorted = [...terms].sort((a, b) => b.source.length - a.source.length);
+
+  for (const term of sorted) {
+    if (!term.source.trim()) continue;
+    protectedText = protectedText.replace(termRegExp(term), () => {
+      replacements.push(term.target);
+      return placeholder(replacements.length - 1);
+    });
+  }
+
+  return { text: protectedText, replacements };
+}
+
+/**
+ * Put the user's target terms back where the placeholders ended up.
+ * Returns null when a placeholder is gone from the output altogether
+ * (stripped or transliterated), as the term's position is then unknown.
+ */
+export function restoreTerms(text: string, replacements: string[]): string | null {
+  let restored = text;
+  for (let i = 0; i < replacements.length; i++) {
+    const before = restored;
+    restored = restored.replace(exactPlaceholder(i), () => replacements[i]);
+    if (restored === before) restored = restored.replace(damagedPlaceholder(i), () => replacements[i]);
+    if (restored === before) return null;
+  }
+  return restored;
+}
+
+/** Replace source terms an engine left untranslated with their glossary targets */
+function substituteTerms(text: string, terms: GlossaryEntry[]): string {
+  const sorted = [...terms].sort((a, b) => b.source.length - a.source.length);
+  return sorted.reduce((result, term) => term.source.trim() ? result.replace(termRegExp(term), () => term.target) : result, text);
+}
+
+/** Wrap a provider so every translation enforces the glossary for its pair */
+export function withGlossary(provider: TranslationProvider): TranslationProvider {
+  return {
+    ...provider,
+    async translate(text, sourceLang, targetLang, options) {
+      const terms = termsFor(sourceLang, targetLang);
+      if (terms.length === 0) return provider.translate(text, sourceLang, targetLang, options);
+
+      const { text: protectedText, replacements } = protectTerms(text, terms);
+      if (replacements.length === 0) return provider.translate(text, sourceLang, targetLang, options);
+      const result = await provider.translate(protectedText, sourceLang, targetLang, options);
+      const restored = restoreTerms(result.translatedText, replacements);
+      if (restored !== null) return { ...result, translatedText: restored };
+
+      // The engine lost a placeholder: translate the plain text and swap in any terms it kept as they were
+      const plain = await provider.translate(text, sourceLang, targetLang, options);
+      return { ...plain, translatedText: substituteTerms(plain.translatedText, terms) };
+    },
+  };
+}
+
+/** Serialize for export */
+export function exportGlossary(list: GlossaryEntry[]): string {
+  return JSON.stringify(list.map(({ sourceLang, targetLang, source, target, caseSensitive }) => (
+    { sourceLang, targetLang, source, target, ...(caseSensitive ? { caseSensitive } : {}) }
+  )), null, 2);
+}
+
+/**
+ * Parse an exported JSON glossary, or a CSV/TSV with
+ * `source,target` rows (language pair taken from the arguments).
+ */
+export function parseGlossary(content: string, sourceLang: string, targetLang: string): Omit<GlossaryEntry, 'id'>[] {
+  const trimmed = content.replace(/^﻿/, '').trim();
+  if (trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed) as Array<Partial<GlossaryEntry>>;
+    return data
+      .filter(e => e.source && e.target)
+      .map(e => ({
+        sourceLang: e.sourceLang || sourceLang,
+        targetLang: e.targetLang || targetLang,
+        source: String(e.source),
+        target: String(e.target),
+        caseSensitive: !!e.caseSensitive,
+      }));
+  }
+
+  // One delimiter for the whole file, so a comma inside a TSV term stays in it
+  const delimiter = trimmed.split(/\r?\n/, 1)[0].includes('\t') ? '\t' : ',';
+  return parseCsv(trimmed, delimiter)
+    .map(cells => cells.map(c => c.trim()))
+    .filter(([source, target]) => source && target)
+    .map(([source, target]) => ({ sourceLang, targetLang, source, target }));
+}
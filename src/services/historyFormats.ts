@@ -0,0 +1,156 @@
+import type { HistoryItem } from './historyStore';
+import { parseCsv, csvCell } from '../utils/csv';
+
+export type HistoryFormat = 'json' | 'csv' | 'tmx';
+
+/** Item as read from a file, before it gets an id/timestamp if missing */
+export type ImportedHistoryItem = Omit<HistoryItem, 'id' | 'timestamp'> & Partial<Pick<HistoryItem, 'id' | 'timestamp'>>;
+
+const CSV_COLUMNS = ['id', 'timestamp', 'sourceLang', 'targetLang', 'sourceText', 'translatedText', 'pinned'] as const;
+
+// ===== CSV =====
+
+function toCsv(items: HistoryItem[]) {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const item of items) {
+    lines.push([
+      item.id,
+      new Date(item.timestamp).toISOString(),
+      item.sourceLang,
+      item.targetLang,
+      item.sourceText,
+      item.translatedText,
+      item.pinned ? '1' : '',
+    ].map(cell => csvCell(cell)).join(','));
+  }
+  // BOM so Excel opens UTF-8 (Cyrillic, Uzbek) correctly
+  return '﻿' + lines.join('\r\n') + '\r\n';
+}
+
+function fromCsv(content: string): ImportedHistoryItem[] {
+  const [header, ...rows] = parseCsv(content.replace(/^﻿/, ''));
+  if (!header) return [];
+  const col = (name: string) => header.indexOf(name);
+  if (col('sourceText') < 0 || col('translatedText') < 0) {
+    throw new Error('CSV must have sourceText and translatedText columns');
+  }
+
+  return rows.map(cells => {
+    const get = (name: string) => cells[col(name)] ?? '';
+    const time = Date.parse(get('timestamp'));
+    return {
+      id: get('id') || undefined,
+      timestamp: Number.isNaN(time) ? undefined : time,
+      sourceLang: get('sourceLang') || 'auto',
+      targetLang: get('targetLang') || 'en',
+      sourceText: get('sourceText'),
+      translatedText: get('translatedText'),
+      pinned: get('pinned') === '1' || undefined,
+    };
+  }).filter(item => item.sourceText && item.translatedText);
+}
+
+// ===== TMX 1.4 =====
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** TMX dates are ISO 8601 basic format: YYYYMMDDThhmmssZ */
+function toTmxDate(ts: number) {
+  return new Date(ts).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function fromTmxDate(value: string | null) {
+  const m = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) : undefined;
+}
+
+function toTmx(items: HistoryItem[]) {
+  const units = items.map(item => [
+    `    <tu tuid="${escapeXml(item.id)}" creationdate="${toTmxDate(item.timestamp)}">`,
+    `      <tuv xml:lang="${escapeXml(item.sourceLang)}"><seg>${escapeXml(item.sourceText)}</seg></tuv>`,
+    `      <tuv xml:lang="${escapeXml(item.targetLang)}"><seg>${escapeXml(item.translatedText)}</seg></tuv>`,
+    '    </tu>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    // Pairs vary per item, hence srclang="*all*"; the first <tuv> is always the source
+    '  <header creationtool="Sardor" creationtoolversion="1.0" segtype="sentence" o-tmf="sardor-history" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+}
+
+function tuvLang(tuv: Element) {
+  // TMX 1.4 uses xml:lang, 1.1 used lang; CAT tools write regional codes like en-US
+  const lang = tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || '';
+  return lang.split(/[-_]/)[0].toLowerCase();
+}
+
+function fromTmx(content: string): ImportedHistoryItem[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid TMX file');
+
+  const headerSrc = doc.getElementsByTagName('header')[0]?.getAttribute('srclang')?.split(/[-_]/)[0].toLowerCase();
+  const items: ImportedHistoryItem[] = [];
+
+  for (const tu of Array.from(doc.getElementsByTagName('tu'))) {
+    const tuvs = Array.from(tu.getElementsByTagName('tuv'));
+    if (tuvs.length < 2) continue;
+    const source = (headerSrc && headerSrc !== '*all*' && tuvs.find(t => tuvLang(t) === headerSrc)) || tuvs[0];
+    const target = tuvs.find(t => t !== source)!;
+    const segText = (tuv: Element) => tuv.getElementsByTagName('seg')[0]?.textContent?.trim() ?? '';
+
+    const item: ImportedHistoryItem = {
+      id: tu.getAttribute('tuid') || undefined,
+      timestamp: fromTmxDate(tu.getAttribute('creationdate')),
+      sourceLang: tuvLang(source),
+      targetLang: tuvLang(target),
+      sourceText: segText(source),
+      translatedText: segText(target),
+    };
+    if (item.sourceText && item.translatedText) items.push(item);
+  }
+  return items;
+}
+
+// ===== PUBLIC API =====
+
+/** Serialize history in the given format */
+export function serializeHistory(items: HistoryItem[], format: HistoryFormat): string {
+  switch (format) {
+    case 'json': return JSON.stringify(items, null, 2);
+    case 'csv': return toCsv(items);
+    case 'tmx': return toTmx(items);
+  }
+}
+
+/** Parse a history file, picking the format from its extension (or content) */
+export function parseHistory(content: string, filename: string): ImportedHistoryItem[] {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const trimmed = content.trim();
+
+  if (ext === 'tmx' || trimmed.startsWith('<')) return fromTmx(trimmed);
+  if (ext === 'json' || trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed) as ImportedHistoryItem[];
+    if (!Array.isArray(data)) throw new Error('JSON history must be an array');
+    return data.filter(item => item && item.sourceText && item.translatedText);
+  }
+  return fromCsv(content);
+}
+
+export const HISTORY_MIME_TYPES: Record<HistoryFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  tmx: 'application/x-tmx+xml',
+};
@@ -0,0 +1,189 @@
+import { STORES, getStore, promisifyRequest, transactionDone } from './db';
+
+/** History item interface */
+export interface HistoryItem {
+  id: string;
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  timestamp: number;
+  /** Requested offline and delivered from the outbox once back online */
+  translatedLater?: boolean;
+  /** Pinned items are listed first and never evicted or cleared */
+  pinned?: boolean;
+  /** Saved from conversation mode: one line per turn in each text */
+  conversation?: boolean;
+}
+
+export interface HistoryQuery {
+  search?: string;
+  sourceLang?: string;
+  targetLang?: string;
+  /** Inclusive timestamp bounds */
+  from?: number;
+  to?: number;
+  offset?: number;
+  limit?: number;
+  /** Count every match for `total`; when false the scan stops once the page is full */
+  countTotal?: boolean;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  /** null when not counted (countTotal: false) */
+  total: number | null;
+}
+
+/** What is stored: pinnedAt is set only on pinned items, for the 'pinned' index */
+type HistoryRecord = HistoryItem & { pinnedAt?: number };
+
+function toRecord(item: HistoryItem): HistoryRecord {
+  const { pinnedAt: _, ...rest } = item as HistoryRecord;
+  return item.pinned ? { ...rest, pinnedAt: item.timestamp } : rest;
+}
+
+function fromRecord(record: HistoryRecord): HistoryItem {
+  const { pinnedAt: _, ...item } = record;
+  return item;
+}
+
+/** Safety valve only; unpinned items beyond this are evicted oldest first */
+const MAX_ITEMS = 100000;
+const LEGACY_STORAGE_KEY = 'sardor_translator_history';
+
+function timestampRange({ from, to }: HistoryQuery) {
+  if (from !== undefined && to !== undefined) return from <= to ? IDBKeyRange.bound(from, to) : null;
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to);
+  return undefined;
+}
+
+function matches(item: HistoryItem, query: HistoryQuery, needle: string) {
+  if (query.sourceLang && item.sourceLang !== query.sourceLang) return false;
+  if (query.targetLang && item.targetLang !== query.targetLang) return false;
+  if (query.from !== undefined && item.timestamp < query.from) return false;
+  if (query.to !== undefined && item.timestamp > query.to) return false;
+  if (needle) {
+    return item.sourceText.toLowerCase().includes(needle)
+      || item.translatedText.toLowerCase().includes(needle);
+  }
+  return true;
+}
+
+/**
+ * Filtered history, pinned first then newest first. Only the date range
+ * is indexed: the walk over it stops once the page is full, unless text or
+ * language filters are set and the total has to be counted by reading.
+ */
+export async function queryHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const { tx, store } = await getStore(STORES.history);
+  const needle = query.search?.trim().toLowerCase() ?? '';
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? Infinity;
+  const countTotal = query.countTotal ?? true;
+  const range = timestampRange(query);
+  const byTimestamp = store.index('timestamp');
+  if (range === null) return { items: [], total: 0 };
+
+  // Pinned items are few and always come first
+  const pinned = (await promisifyRequest(store.index('pinned').getAll()) as HistoryRecord[])
+    .map(fromRecord)
+    .filter(item => matches(item, query, needle))
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const items = pinned.slice(offset, offset + limit);
+
+  const filtered = !!(needle || query.sourceLang || query.targetLang);
+  const countRequest = countTotal && !filtered ? byTimestamp.count(range) : null;
+  let skip = Math.max(0, offset - pinned.length);
+  let matched = 0;
+
+  const cursorRequest = byTimestamp.openCursor(range, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const item = cursor.value as HistoryRecord;
+    if (!item.pinned && matches(item, query, needle)) {
+      if (items.length >= limit && !(countTotal && filtered)) return;
+      matched++;
+      if (skip > 0) skip--;
+      else if (items.length < limit) items.push(fromRecord(item));
+    }
+    cursor.continue();
+  };
+  await transactionDone(tx);
+
+  let total: number | null = null;
+  if (countRequest) total = countRequest.result;
+  else if (countTotal) total = pinned.length + matched;
+  return { items, total };
+}
+
+/** Every item, newest first (for export) */
+export async function getAllHistory(): Promise<HistoryItem[]> {
+  return (await queryHistory()).items;
+}
+
+export async function countHistory(): Promise<number> {
+  const { store } = await getStore(STORES.history);
+  return promisifyRequest(store.count());
+}
+
+/** Insert or replace items, evicting the oldest unpinned ones beyond the cap */
+export async function putHistoryItems(items: HistoryItem[]) {
+  const { tx, store } = await getStore(STORES.history, 'readwrite');
+  items.forEach(item => store.put(toRecord(item)));
+
+  let excess = await promisifyRequest(store.count()) - MAX_ITEMS;
+  if (excess > 0) {
+    const cursorRequest = store.index('timestamp').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      if (!(cursor.value as HistoryItem).pinned) {
+        cursor.delete();
+        excess--;
+      }
+      cursor.continue();
+    };
+  }
+  await transactionDone(tx);
+}
+
+export async function updateHistoryItem(id: string, changes: Partial<Omit<HistoryItem, 'id'>>) {
+  const { tx, store } = await getStore(STORES.history, 'readwrite');
+  const item = await promisifyRequest(store.get(id)) as HistoryRecord | undefined;
+  if (item) store.put(toRecord({ ...fromRecord(item), ...changes }));
+  await transactionDone(tx);
+}
+
+export async function deleteHistoryItem(id: string) {
+  const { tx, store } = await getStore(STORES.history, 'readwrite');
+  store.delete(id);
+  await transactionDone(tx);
+}
+
+/** Remove everything except pinned items */
+export async function clearUnpinnedHistory() {
+  const { tx, store } = await getStore(STORES.history, 'readwrite');
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (!(cursor.value as HistoryItem).pinned) cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+}
+
+/** One-time move of the old 10-item localStorage history into IndexedDB */
+export async function migrateLegacyHistory() {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    await putHistoryItems(JSON.parse(stored) as HistoryItem[]);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (err) {
+    console.error('[HistoryManager] Migration error:', err);
+  }
+}
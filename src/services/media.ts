@@ -0,0 +1,18 @@
+export type MediaKind = 'video' | 'audio';
+
+/** Extensions checked when the browser reports no MIME type (common for .m4a/.opus/.amr) */
+const VIDEO_EXTENSIONS = ['.mp4', '.m4v', '.webm', '.mkv', '.mov', '.ogv'];
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.aac', '.ogg', '.oga', '.opus', '.wav', '.flac', '.weba', '.amr'];
+
+/** `accept` value for media file inputs */
+export const MEDIA_ACCEPT = ['video/*', 'audio/*', ...VIDEO_EXTENSIONS, ...AUDIO_EXTENSIONS].join(',');
+
+/** Whether a file is a video or audio recording, or null when it's neither */
+export function getMediaKind(file: File): MediaKind | null {
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/')) return 'audio';
+  const name = file.name.toLowerCase();
+  if (VIDEO_EXTENSIONS.some(ext => name.endsWith(ext))) return 'video';
+  if (AUDIO_EXTENSIONS.some(ext => name.endsWith(ext))) return 'audio';
+  return null;
+}
@@ -0,0 +1,83 @@
+import { STORES, getStore, promisifyRequest, transactionDone } from './db';
+
+/** A translation requested while offline, waiting to be sent */
+export interface OutboxItem {
+  id: string;
+  sourceText: string;
+  sourceLang: string;
+  targetLang: string;
+  createdAt: number;
+  /** Failed delivery attempts so far */
+  attempts?: number;
+  lastError?: string;
+  /** Not retried before this time */
+  retryAt?: number;
+  /** Given up on until the user retries it */
+  failed?: boolean;
+}
+
+/** Delivery attempts before an item is given up on */
+export const MAX_OUTBOX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 10 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+/** All pending items, oldest first */
+export async function listOutbox(): Promise<OutboxItem[]> {
+  const { store } = await getStore(STORES.outbox);
+  return promisifyRequest(store.index('createdAt').getAll()) as Promise<OutboxItem[]>;
+}
+
+/**
+ * Queue a translation. While the user keeps typing offline, each debounce
+ * would queue another prefix of the same text, so the newest pending item
+ * is replaced when the new text extends it (or vice versa).
+ */
+export async function enqueueOutbox(item: Omit<OutboxItem, 'id' | 'createdAt'>): Promise<OutboxItem> {
+  const pending = await listOutbox();
+  const last = pending[pending.length - 1];
+  const sameDraft = last
+    && last.sourceLang === item.sourceLang
+    && last.targetLang === item.targetLang
+    && (item.sourceText.startsWith(last.sourceText) || last.sourceText.startsWith(item.sourceText));
+
+  // A changed draft gets a fresh start, even if the previous text kept failing
+  const entry: OutboxItem = sameDraft
+    ? { ...item, id: last.id, createdAt: last.createdAt }
+    : { ...item, id: Date.now().toString(36) + Math.random().toString(36).substring(2), createdAt: Date.now() };
+
+  await saveOutboxItem(entry);
+  return entry;
+}
+
+/** Store an item as given, e.g. after its retry state changed */
+export async function saveOutboxItem(item: OutboxItem) {
+  const { tx, store } = await getStore(STORES.outbox, 'readwrite');
+  store.put(item);
+  await transactionDone(tx);
+}
+
+/**
+ * Record a failed delivery. The item is retried with exponential backoff
+ * (or after the server's Retry-After), and given up on when the error is
+ * `permanent` or it ran out of attempts.
+ */
+export async function recordOutboxFailure(item: OutboxItem, error: string, permanent: boolean, retryAfterMs = 0): Promise<OutboxItem> {
+  const attempts = (item.attempts ?? 0) + 1;
+  const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+  const entry: OutboxItem = {
+    ...item,
+    attempts,
+    lastError: error,
+    retryAt: Date.now() + Math.max(backoff, retryAfterMs),
+    failed: permanent || attempts >= MAX_OUTBOX_ATTEMPTS,
+  };
+  await saveOutboxItem(entry);
+  return entry;
+}
+
+/** Remove a delivered item */
+export async function removeFromOutbox(id: string) {
+  const { tx, store } = await getStore(STORES.outbox, 'readwrite');
+  store.delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,52 @@
+/** SM-2 scheduling state of one flashcard */
+export interface ReviewState {
+  /** Ease factor, starts at 2.5 and never drops below 1.3 */
+  ease: number;
+  /** Current interval in days */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Timestamp the card is next due */
+  due: number;
+  lastReviewed?: number;
+}
+
+/** Answer quality on the SM-2 0–5 scale; the UI offers 1, 3, 4 and 5 */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** A forgotten card comes back within the same session */
+const RELEARN_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+/** State for a card that has never been reviewed: due immediately */
+export function newReviewState(now = Date.now()): ReviewState {
+  return { ease: 2.5, interval: 0, repetitions: 0, due: now };
+}
+
+/** Apply one review (SM-2) and return the next state */
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, now = Date.now()): ReviewState {
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  if (grade < 3) {
+    return { ease, interval: 0, repetitions: 0, due: now + RELEARN_MS, lastReviewed: now };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1
+    : repetitions === 2 ? 6
+    : Math.round(state.interval * ease);
+
+  return { ease, interval, repetitions, due: now + interval * DAY_MS, lastReviewed: now };
+}
+
+/** End of the current local day; everything due before it counts as "due today" */
+export function endOfToday(now = Date.now()): number {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+export function isDueToday(state: ReviewState, now = Date.now()): boolean {
+  return state.due <= endOfToday(now);
+}
@@ -0,0 +1,78 @@
+import type { VideoSubtitle } from './subtitles';
+
+/** Shortest cue the editor lets timings or splits produce, in seconds */
+export const MIN_CUE_DURATION = 0.2;
+
+const round3 = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+const newCueId = () => `sub-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+
+export function updateCue(cues: VideoSubtitle[], id: string, changes: Partial<Omit<VideoSubtitle, 'id'>>): VideoSubtitle[] {
+  return cues.map(c => c.id === id ? { ...c, ...changes } : c);
+}
+
+/**
+ * Move the start or end of a cue by `delta` seconds, clamped so it
+ * stays after the previous cue, before the next one and not too short
+ */
+export function nudgeCue(cues: VideoSubtitle[], id: string, edge: 'start' | 'end', delta: number): VideoSubtitle[] {
+  const i = cues.findIndex(c => c.id === id);
+  if (i < 0) return cues;
+  const cue = cues[i];
+  const prevEnd = cues[i - 1]?.endTime ?? 0;
+  const nextStart = cues[i + 1]?.startTime ?? Infinity;
+
+  const changes = edge === 'start'
+    ? { startTime: round3(Math.min(Math.max(cue.startTime + delta, prevEnd), cue.endTime - MIN_CUE_DURATION)) }
+    : { endTime: round3(Math.max(Math.min(cue.endTime + delta, nextStart), cue.startTime + MIN_CUE_DURATION)) };
+  return updateCue(cues, id, changes);
+}
+
+/** Index in `text` closest to `ratio` of its length that falls on a word boundary */
+function splitIndex(text: string, ratio: number) {
+  const target = Math.round(text.length * ratio);
+  let best = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ' ' && (best < 0 || Math.abs(i - target) < Math.abs(best - target))) best = i;
+  }
+  return best < 0 ? target : best;
+}
+
+/**
+ * Split a cue in two at `position` in its original text. The time is
+ * divided in proportion to the text, and the translation is cut at the
+ * word boundary nearest the same proportion (re-translate to refine).
+ */
+export function splitCue(cues: VideoSubtitle[], id: string, position: number): VideoSubtitle[] {
+  const i = cues.findIndex(c => c.id === id);
+  if (i < 0) return cues;
+  const cue = cues[i];
+  const left = cue.originalText.slice(0, position).trim();
+  const right = cue.originalText.slice(position).trim();
+  if (!left || !right) return cues;
+
+  const ratio = position / cue.originalText.length;
+  const duration = cue.endTime - cue.startTime;
+  if (duration < MIN_CUE_DURATION * 2) return cues;
+  const splitTime = round3(Math.min(Math.max(cue.startTime + duration * ratio, cue.startTime + MIN_CUE_DURATION), cue.endTime - MIN_CUE_DURATION));
+
+  const cut = splitIndex(cue.translatedText, ratio);
+  const first: VideoSubtitle = { ...cue, endTime: splitTime, originalText: left, translatedText: cue.translatedText.slice(0, cut).trim() };
+  const second: VideoSubtitle = { ...cue, id: newCueId(), startTime: splitTime, originalText: right, translatedText: cue.translatedText.slice(cut).trim() };
+  return [...cues.slice(0, i), first, second, ...cues.slice(i + 1)];
+}
+
+/** Merge a cue with the one after it */
+export function mergeWithNext(cues: VideoSubtitle[], id: string): VideoSubtitle[] {
+  const i = cues.findIndex(c => c.id === id);
+  if (i < 0 || i >= cues.length - 1) return cues;
+  const [a, b] = [cues[i], cues[i + 1]];
+  const join = (x: string, y: string) => [x, y].filter(Boolean).join(' ');
+  const merged: VideoSubtitle = {
+    ...a,
+    endTime: b.endTime,
+    originalText: join(a.originalText, b.originalText),
+    translatedText: join(a.translatedText, b.translatedText),
+  };
+  return [...cues.slice(0, i), merged, ...cues.slice(i + 2)];
+}
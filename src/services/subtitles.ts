@@ -0,0 +1,112 @@
+/** One timed cue with its text in both languages */
+export interface VideoSubtitle {
+  id: string;
+  startTime: number;
+  endTime: number;
+  originalText: string;
+  translatedText: string;
+  /** Translation failed; the cue can be retried on its own */
+  translationFailed?: boolean;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+/** Which text goes into each exported cue */
+export type SubtitleTrack = 'original' | 'translated' | 'bilingual';
+
+/** HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT) */
+export function formatTimestamp(seconds: number, format: SubtitleFormat) {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor(totalMs / 60000) % 60;
+  const s = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+}
+
+/** Text of a cue for the given track; untranslated cues fall back to the original */
+export function cueText(cue: VideoSubtitle, track: SubtitleTrack) {
+  switch (track) {
+    case 'original': return cue.originalText;
+    case 'translated': return cue.translatedText || cue.originalText;
+    case 'bilingual': return [cue.originalText, cue.translatedText].filter(Boolean).join('\n');
+  }
+}
+
+/** A blank line ends a cue in both formats, so blank lines inside text are dropped */
+const cleanText = (text: string) => text.split(/\r?\n/).map(l => l.trim()).filter(Boolean).join('\n');
+
+/**
+ * Serialize cues as an SRT or WebVTT file
+ * `cueSettings` (WebVTT only, e.g. "line:90%") is appended to every timing line.
+ */
+export function serializeSubtitles(cues: VideoSubtitle[], format: SubtitleFormat, track: SubtitleTrack, cueSettings = ''): string {
+  const blocks = cues
+    .map(cue => ({ cue, text: cleanText(cueText(cue, track)) }))
+    .filter(({ text }) => text)
+    .map(({ cue, text }, i) => {
+      const settings = format === 'vtt' && cueSettings ? ` ${cueSettings}` : '';
+      const timing = `${formatTimestamp(cue.startTime, format)} --> ${formatTimestamp(cue.endTime, format)}${settings}`;
+      // WebVTT cue identifiers are optional; SRT requires the sequence number
+      return format === 'srt' ? `${i + 1}\n${timing}\n${text}` : `${timing}\n${text}`;
+    });
+
+  const body = blocks.join('\n\n') + '\n';
+  return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+}
+
+// ===== PARSING =====
+
+/** Parse "HH:MM:SS,mmm", "HH:MM:SS.mmm" or "MM:SS.mmm" into seconds */
+export function parseTimestamp(value: string): number {
+  const m = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!m) throw new Error(`Invalid timestamp: ${value}`);
+  const ms = Number((m[4] ?? '0').padEnd(3, '0'));
+  return (Number(m[1] ?? 0) * 3600000 + Number(m[2]) * 60000 + Number(m[3]) * 1000 + ms) / 1000;
+}
+
+const TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+/** Formatting tags (<i>, <c.yellow>, <v Speaker>, {\an8}) are dropped; the text is kept */
+const stripTags = (text: string) => text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+
+/** Parse SRT or WebVTT content into cues; both share the "start --> end" block layout */
+export function parseSubtitles(content: string, filename: string): { format: SubtitleFormat; cues: VideoSubtitle[] } {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format: SubtitleFormat = filename.toLowerCase().endsWith('.vtt') || text.startsWith('WEBVTT') ? 'vtt' : 'srt';
+  const cues: VideoSubtitle[] = [];
+
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split('\n').filter(l => l.trim());
+    // Skips the WEBVTT header, NOTE/STYLE/REGION blocks and SRT/VTT cue identifiers
+    const timingIndex = lines.findIndex(l => TIMING.test(l));
+    if (timingIndex < 0) continue;
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    const cueText = lines.slice(timingIndex + 1).map(stripTags).filter(Boolean).join('\n');
+    if (!cueText) continue;
+
+    cues.push({
+      id: `sub-${cues.length}`,
+      startTime: parseTimestamp(start),
+      endTime: parseTimestamp(end),
+      originalText: cueText,
+      translatedText: '',
+    });
+  }
+
+  if (cues.length === 0) throw new Error('No subtitle cues found');
+  return { format, cues };
+}
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+
+export function isSubtitleFile(file: File) {
+  const name = file.name.toLowerCase();
+  return SUBTITLE_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
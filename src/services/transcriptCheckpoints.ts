@@ -0,0 +1,36 @@
+import { STORES, getStore, promisifyRequest, transactionDone } from './db';
+import type { VideoSubtitle } from './subtitles';
+
+/** A partly transcribed media file, saved as the transcription goes */
+export interface TranscriptCheckpoint {
+  /** Identifies the file, see mediaFileKey */
+  key: string;
+  fileName: string;
+  /** Seconds of the file transcribed so far */
+  position: number;
+  cues: VideoSubtitle[];
+  updatedAt: number;
+}
+
+/** Files have no stable id, so the same name, size and date count as the same file */
+export function mediaFileKey(file: File) {
+  return `${file.name}|${file.size}|${file.lastModified}`;
+}
+
+export async function loadCheckpoint(key: string): Promise<TranscriptCheckpoint | null> {
+  const { store } = await getStore(STORES.transcripts);
+  const checkpoint = await promisifyRequest(store.get(key) as IDBRequest<TranscriptCheckpoint | undefined>);
+  return checkpoint ?? null;
+}
+
+export async function saveCheckpoint(checkpoint: Omit<TranscriptCheckpoint, 'updatedAt'>): Promise<void> {
+  const { tx, store } = await getStore(STORES.transcripts, 'readwrite');
+  store.put({ ...checkpoint, updatedAt: Date.now() } satisfies TranscriptCheckpoint);
+  await transactionDone(tx);
+}
+
+export async function clearCheckpoint(key: string): Promise<void> {
+  const { tx, store } = await getStore(STORES.transcripts, 'readwrite');
+  store.delete(key);
+  await transactionDone(tx);
+}
@@ -0,0 +1,218 @@
+import { throwIfAborted } from '../translation';
+
+/** Sample rate speech models expect */
+export const SPEECH_SAMPLE_RATE = 16000;
+
+/** Recordings up to this long are decoded in one go; longer ones are streamed */
+export const DECODE_IN_MEMORY_SECONDS = 10 * 60;
+
+/** Larger files are streamed however short they are, e.g. high-bitrate video */
+export const DECODE_IN_MEMORY_LIMIT = 40 * 1024 * 1024;
+
+/** A slice of 16 kHz mono PCM and where it starts in the file, in seconds */
+export interface AudioWindow {
+  samples: Float32Array;
+  offset: number;
+}
+
+export interface AudioWindowOptions {
+  windowSeconds: number;
+  /** Where to begin, in seconds */
+  start?: number;
+  signal?: AbortSignal;
+}
+
+/** A media file's audio, read window by window */
+export interface AudioSource {
+  /** Length in seconds (Infinity when the container doesn't say) */
+  duration: number;
+  windows(options: AudioWindowOptions): AsyncGenerator<AudioWindow>;
+}
+
+function loadMetadata(media: HTMLMediaElement) {
+  return new Promise<void>((resolve, reject) => {
+    media.onloadedmetadata = () => resolve();
+    media.onerror = () => reject(new Error(media.error?.message || 'Media could not be read'));
+  });
+}
+
+async function probeDuration(file: Blob) {
+  const url = URL.createObjectURL(file);
+  try {
+    const probe = new Audio();
+    probe.preload = 'metadata';
+    probe.src = url;
+    await loadMetadata(probe);
+    return probe.duration;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Open a media file's audio track as 16 kHz mono PCM. Nothing is played
+ * aloud either way: short files are decoded in an OfflineAudioContext,
+ * long ones are streamed through a silent audio graph so only a couple
+ * of windows are ever held in memory. The choice goes by duration, since
+ * a compressed file of a few MB can hold hours of speech.
+ */
+export async function openAudio(file: Blob): Promise<AudioSource> {
+  const duration = await probeDuration(file);
+  // An unknown (NaN or Infinity) duration is streamed too
+  if (duration <= DECODE_IN_MEMORY_SECONDS && file.size <= DECODE_IN_MEMORY_LIMIT) return decodeWhole(file);
+  return { duration, windows: options => streamWindows(file, options) };
+}
+
+// ===== IN MEMORY =====
+
+async function decodeWhole(file: Blob): Promise<AudioSource> {
+  // decodeAudioData resamples to the context's rate; the channels are averaged below
+  const context = new OfflineAudioContext(1, 1, SPEECH_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await file.arrayBuffer());
+
+  const samples = new Float32Array(decoded.length);
+  for (let c = 0; c < decoded.numberOfChannels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < samples.length; i++) samples[i] += channel[i] / decoded.numberOfChannels;
+  }
+
+  return {
+    duration: decoded.duration,
+    async *windows({ windowSeconds, start: from = 0, signal }) {
+      const windowSize = windowSeconds * SPEECH_SAMPLE_RATE;
+      for (let start = Math.round(from * SPEECH_SAMPLE_RATE); start < samples.length; start += windowSize) {
+        throwIfAborted(signal);
+        yield { samples: samples.slice(start, start + windowSize), offset: start / SPEECH_SAMPLE_RATE };
+      }
+    },
+  };
+}
+
+// ===== STREAMED =====
+
+/** Posts every render quantum of the (mono) input to the main thread */
+const CAPTURE_PROCESSOR = `
+registerProcessor('pcm-capture', class extends AudioWorkletProcessor {
+  process([input]) {
+    if (input && input[0]) this.port.postMessage(input[0].slice());
+    return true;
+  }
+});`;
+
+/** Windows waiting for the consumer before playback is paused */
+const MAX_QUEUED_WINDOWS = 2;
+
+/** Captured audio can still be in flight when `ended` fires */
+const END_GRACE_MS = 300;
+
+/** How many times faster than real time streamed files are played */
+const STREAM_PLAYBACK_RATE = 4;
+
+/**
+ * Played `rate` times faster without pitch correction, the audio is simply
+ * resampled, so recording it at `rate` × 16 kHz gives the original at 16 kHz.
+ * Falls back to real time where the context can't run that fast.
+ */
+function createCaptureContext() {
+  try {
+    return { context: new AudioContext({ sampleRate: SPEECH_SAMPLE_RATE * STREAM_PLAYBACK_RATE }), rate: STREAM_PLAYBACK_RATE };
+  } catch {
+    return { context: new AudioContext({ sampleRate: SPEECH_SAMPLE_RATE }), rate: 1 };
+  }
+}
+
+/**
+ * Play the file several times faster than real time into an AudioWorklet
+ * that records mono PCM (see createCaptureContext). The graph ends in a
+ * muted gain node, so it is silent. Playback pauses while the consumer is
+ * behind, which keeps memory flat however long the recording is.
+ */
+async function* streamWindows(file: Blob, { windowSeconds, start = 0, signal }: AudioWindowOptions): AsyncGenerator<AudioWindow> {
+  const windowSize = windowSeconds * SPEECH_SAMPLE_RATE;
+  const url = URL.createObjectURL(file);
+  const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'text/javascript' }));
+  const media = new Audio();
+  const { context, rate } = createCaptureContext();
+  // Reloading resets playbackRate to the default, so both are set
+  media.defaultPlaybackRate = media.playbackRate = rate;
+  media.preservesPitch = false;
+
+  const queue: AudioWindow[] = [];
+  let current = new Float32Array(windowSize);
+  let filled = 0;
+  let captured = 0;
+  let ended = false;
+  let throttled = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => { wake?.(); wake = null; };
+
+  const flush = () => {
+    if (filled === 0) return;
+    queue.push({ samples: current.slice(0, filled), offset: start + (captured - filled) / SPEECH_SAMPLE_RATE });
+    current = new Float32Array(windowSize);
+    filled = 0;
+  };
+
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+    const source = context.createMediaElementSource(media);
+    const capture = new AudioWorkletNode(context, 'pcm-capture', { channelCount: 1, channelCountMode: 'explicit' });
+    const silent = context.createGain();
+    silent.gain.value = 0;
+    source.connect(capture).connect(silent).connect(context.destination);
+
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      let chunk = event.data;
+      while (chunk.length > 0) {
+        const n = Math.min(chunk.length, windowSize - filled);
+        current.set(chunk.subarray(0, n), filled);
+        filled += n;
+        captured += n;
+        chunk = chunk.subarray(n);
+        if (filled === windowSize) flush();
+      }
+      if (queue.length >= MAX_QUEUED_WINDOWS && !throttled && !ended) {
+        throttled = true;
+        media.pause();
+        context.suspend().catch(() => { /* */ });
+      }
+      notify();
+    };
+    media.src = url;
+    if (start > 0) {
+      await loadMetadata(media);
+      media.currentTime = start;
+    }
+    media.onended = () => setTimeout(() => { ended = true; flush(); notify(); }, END_GRACE_MS);
+    media.onerror = () => { failure = new Error(media.error?.message || 'Media could not be read'); notify(); };
+    signal?.addEventListener('abort', notify, { once: true });
+    await media.play();
+
+    while (true) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      const next = queue.shift();
+      if (next) {
+        if (throttled && queue.length < MAX_QUEUED_WINDOWS) {
+          throttled = false;
+          await context.resume();
+          await media.play();
+        }
+        yield next;
+      } else if (ended) {
+        return;
+      } else {
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', notify);
+    media.onended = media.onerror = null;
+    media.pause();
+    media.removeAttribute('src');
+    context.close().catch(() => { /* */ });
+    URL.revokeObjectURL(url);
+    URL.revokeObjectURL(moduleUrl);
+  }
+}
@@ -0,0 +1,135 @@
+import { SPEECH_SAMPLE_RATE, type AudioSource } from './audio';
+// Inlined so the single-file build carries the worker; ONNX Runtime itself loads from whisper/
+import WhisperWorker from './whisper.worker.ts?worker&inline';
+
+/** One recognized stretch of speech, in seconds from the start of the file */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface WhisperRequest {
+  id: number;
+  model: string;
+  /** Whisper language code; undefined lets the model detect it */
+  language?: string;
+  audio: Float32Array;
+  sampleRate: number;
+  /** Position of this window in the file, added to the segment times */
+  offset: number;
+  /** Absolute URL of the folder holding ONNX Runtime and self-hosted models */
+  assetsUrl: string;
+}
+
+export type WhisperResponse =
+  | { type: 'loading'; progress: number }
+  | { type: 'result'; id: number; segments: TranscriptSegment[] }
+  | { type: 'error'; id: number; message: string };
+
+/** Multilingual Whisper checkpoints converted for ONNX Runtime Web, smallest first */
+export const WHISPER_MODELS = [
+  { id: 'Xenova/whisper-tiny', label: 'Tiny • ~40 MB • eng tez', size: '~40 MB' },
+  { id: 'Xenova/whisper-base', label: 'Base • ~80 MB', size: '~80 MB' },
+  { id: 'Xenova/whisper-small', label: 'Small • ~250 MB • eng aniq', size: '~250 MB' },
+] as const;
+
+export const DEFAULT_WHISPER_MODEL = 'Xenova/whisper-base';
+
+/** Whisper looks at 30 s of audio at a time */
+const WINDOW_SECONDS = 30;
+
+export interface WhisperOptions {
+  model: string;
+  language?: string;
+  signal?: AbortSignal;
+  /** Model download progress, 0–1 (only on first use of a model) */
+  onModelProgress?: (progress: number) => void;
+  /** Called after every window with the seconds of audio done so far */
+  onProgress?: (doneSeconds: number, totalSeconds: number) => void;
+  onSegments?: (segments: TranscriptSegment[]) => void;
+  /** Seconds into the file to begin at */
+  start?: number;
+}
+
+// Kept between runs so the model is loaded once per session
+let worker: Worker | null = null;
+let nextId = 0;
+
+/** Where the build puts ONNX Runtime, next to index.html (see vite.config.ts) */
+const assetsUrl = () => new URL('whisper/', document.baseURI).href;
+
+function getWorker() {
+  worker ??= new WhisperWorker();
+  return worker;
+}
+
+/** Stop the worker (and free the model) */
+export function terminateWhisper() {
+  worker?.terminate();
+  worker = null;
+}
+
+function runWindow(request: Omit<WhisperRequest, 'id'>, options: WhisperOptions): Promise<TranscriptSegment[]> {
+  const w = getWorker();
+  const id = ++nextId;
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      w.removeEventListener('message', onMessage);
+      w.removeEventListener('error', onError);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const onMessage = (event: MessageEvent<WhisperResponse>) => {
+      const msg = event.data;
+      if (msg.type === 'loading') {
+        options.onModelProgress?.(msg.progress);
+      } else if (msg.id === id) {
+        cleanup();
+        if (msg.type === 'result') resolve(msg.segments);
+        else reject(new Error(msg.message));
+      }
+    };
+    // The WASM run can't be interrupted, so the whole worker goes
+    const onAbort = () => {
+      cleanup();
+      terminateWhisper();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    // The worker crashed outside a request, e.g. while starting up
+    const onError = (event: Event) => {
+      event.preventDefault();
+      cleanup();
+      terminateWhisper();
+      reject(new Error('Nutqni aniqlash moduli ishga tushmadi'));
+    };
+    w.addEventListener('message', onMessage);
+    w.addEventListener('error', onError);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    // Each window's samples are a copy, so the buffer can be handed over
+    w.postMessage({ ...request, id } satisfies WhisperRequest, [request.audio.buffer]);
+  });
+}
+
+/**
+ * Transcribe a file's audio with Whisper running on the CPU (WASM)
+ * in a worker, window by window so progress and segments stream in.
+ */
+export async function transcribeWithWhisper(source: AudioSource, options: WhisperOptions): Promise<TranscriptSegment[]> {
+  const segments: TranscriptSegment[] = [];
+
+  const windows = source.windows({ windowSeconds: WINDOW_SECONDS, start: options.start, signal: options.signal });
+  for await (const { samples, offset } of windows) {
+    const found = await runWindow({
+      model: options.model,
+      language: options.language,
+      audio: samples,
+      sampleRate: SPEECH_SAMPLE_RATE,
+      offset,
+      assetsUrl: assetsUrl(),
+    }, options);
+    segments.push(...found);
+    options.onSegments?.([...segments]);
+    options.onProgress?.(offset + samples.length / SPEECH_SAMPLE_RATE, source.duration);
+  }
+  return segments;
+}
@@ -0,0 +1,65 @@
+import { pipeline, env, type AutomaticSpeechRecognitionPipeline } from '@huggingface/transformers';
+import type { WhisperRequest, WhisperResponse } from './whisper';
+
+// Models are looked up next to the app first, then on the Hugging Face hub,
+// and kept in the browser cache after the first download
+env.allowLocalModels = true;
+env.allowRemoteModels = true;
+env.useBrowserCache = true;
+
+/** Load ONNX Runtime and models from the app's own `whisper/` folder instead of a CDN */
+function configureAssets(assetsUrl: string) {
+  env.localModelPath = new URL('models/', assetsUrl).href;
+  if (env.backends.onnx.wasm) env.backends.onnx.wasm.wasmPaths = assetsUrl;
+}
+
+let loaded: { model: string; asr: Promise<AutomaticSpeechRecognitionPipeline> } | null = null;
+
+function post(message: WhisperResponse) {
+  self.postMessage(message);
+}
+
+function getPipeline(model: string) {
+  if (loaded?.model !== model) {
+    const files = new Map<string, number>();
+    const asr = pipeline<'automatic-speech-recognition'>('automatic-speech-recognition', model, {
+      device: 'wasm',
+      dtype: 'q8',
+      progress_callback: (info: { status: string; file?: string; loaded?: number; total?: number }) => {
+        if (info.status !== 'progress' || !info.file || !info.total) return;
+        files.set(info.file, (info.loaded ?? 0) / info.total);
+        const values = Array.from(files.values());
+        post({ type: 'loading', progress: values.reduce((a, b) => a + b, 0) / values.length });
+      },
+    });
+    loaded = { model, asr };
+    asr.catch(() => { loaded = null; });
+  }
+  return loaded.asr;
+}
+
+self.onmessage = async (event: MessageEvent<WhisperRequest>) => {
+  const request = event.data;
+  try {
+    configureAssets(request.assetsUrl);
+    const asr = await getPipeline(request.model);
+    const output = await asr(request.audio, {
+      language: request.language,
+      task: 'transcribe',
+      return_timestamps: true,
+    });
+    const result = Array.isArray(output) ? output[0] : output;
+    const duration = request.audio.length / request.sampleRate;
+    post({
+      type: 'result',
+      id: request.id,
+      segments: (result.chunks ?? [{ text: result.text, timestamp: [0, duration] }]).map(chunk => ({
+        start: request.offset + (chunk.timestamp[0] ?? 0),
+        end: request.offset + (chunk.timestamp[1] ?? duration),
+        text: chunk.text.trim(),
+      })).filter(s => s.text),
+    });
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,136 @@
+import type { TranslationProvider, ProviderTranslation, TranslationAlternative } from './types';
+import { STORES, getStore, promisifyRequest, transactionDone } from '../db';
+
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 5000;
+
+interface CacheEntry {
+  key: string;
+  value: ProviderTranslation | TranslationAlternative[];
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Collapse spacing and unicode forms so trivially different inputs share an entry.
+ * Line breaks are kept: the translation reproduces the paragraph layout.
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\r\n?/g, '\n').replace(/[^\S\n]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+}
+
+/** Provider id plus its configuration, so e.g. two LibreTranslate servers never share results */
+function providerScope(provider: TranslationProvider) {
+  return provider.cacheScope ? `${provider.id}@${provider.cacheScope}` : provider.id;
+}
+
+function cacheKey(kind: string, provider: TranslationProvider, sourceLang: string, targetLang: string, text: string) {
+  return `${kind}|${providerScope(provider)}|${sourceLang}|${targetLang}|${normalizeText(text)}`;
+}
+
+async function read<T extends CacheEntry['value']>(key: string): Promise<T | null> {
+  try {
+    const { tx, store } = await getStore(STORES.translationCache, 'readwrite');
+    const entry = await promisifyRequest(store.get(key)) as CacheEntry | undefined;
+    if (!entry) return null;
+    if (Date.now() - entry.createdAt > TTL_MS) {
+      store.delete(key);
+      await transactionDone(tx);
+      return null;
+    }
+    store.put({ ...entry, lastAccess: Date.now() });
+    return entry.value as T;
+  } catch (err) {
+    console.error('[TranslationCache] Read error:', err);
+    return null;
+  }
+}
+
+async function write(key: string, value: CacheEntry['value']) {
+  try {
+    const { tx, store } = await getStore(STORES.translationCache, 'readwrite');
+    const now = Date.now();
+    store.put({ key, value, createdAt: now, lastAccess: now } satisfies CacheEntry);
+
+    // Evict least recently used entries beyond the cap
+    const count = await promisifyRequest(store.count());
+    let excess = count - MAX_ENTRIES;
+    if (excess > 0) {
+      const cursorRequest = store.index('lastAccess').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  } catch (err) {
+    console.error('[TranslationCache] Write error:', err);
+  }
+}
+
+/** Number of entries and approximate size of the cache */
+export async function getCacheStats(): Promise<CacheStats> {
+  const stats: CacheStats = { entries: 0, bytes: 0 };
+  try {
+    const { tx, store } = await getStore(STORES.translationCache);
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      stats.entries++;
+      stats.bytes += (cursor.value.key.length + JSON.stringify(cursor.value.value).length) * 2;
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  } catch (err) {
+    console.error('[TranslationCache] Stats error:', err);
+  }
+  return stats;
+}
+
+/** Drop every cached translation */
+export async function clearCache() {
+  try {
+    const { tx, store } = await getStore(STORES.translationCache, 'readwrite');
+    store.clear();
+    await transactionDone(tx);
+  } catch (err) {
+    console.error('[TranslationCache] Clear error:', err);
+  }
+}
+
+/**
+ * Wrap a provider so translate/alternatives hit the persistent cache first.
+ * Results are keyed by normalized text, language pair, provider id and its cacheScope.
+ */
+export function withCache(provider: TranslationProvider): TranslationProvider {
+  return {
+    ...provider,
+
+    async translate(text, sourceLang, targetLang, options) {
+      const key = cacheKey('t', provider, sourceLang, targetLang, text);
+      const cached = await read<ProviderTranslation>(key);
+      if (cached) return cached;
+      const result = await provider.translate(text, sourceLang, targetLang, options);
+      if (result.translatedText) write(key, result);
+      return result;
+    },
+
+    async alternatives(text, sourceLang, targetLang, options) {
+      const key = cacheKey('a', provider, sourceLang, targetLang, text);
+      const cached = await read<TranslationAlternative[]>(key);
+      if (cached) return cached;
+      const result = await provider.alternatives(text, sourceLang, targetLang, options);
+      write(key, result);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { registerProvider } from './registry';
+import { myMemoryProvider } from './myMemory';
+import { createMemoryProvider } from './memory';
+import { createLibreTranslateProvider } from './libreTranslate';
+
+export type { TranslationProvider, ProviderTranslation, TranslationAlternative, ProviderCallOptions } from './types';
+export { registerProvider, getProvider, listProviders, setActiveProvider, getActiveProvider } from './registry';
+export { createMemoryProvider, detectScript } from './memory';
+export { withCache, getCacheStats, clearCache, normalizeText, type CacheStats } from './cache';
+export { isAbortError, throwIfAborted, abortableDelay } from './abort';
+export { translateChunked, chunkText, splitSentences, byteLength, type ChunkedParagraph } from './segmenter';
+export { createLibreTranslateProvider, isServerUrl, type LibreTranslateConfig } from './libreTranslate';
+export { RateLimitError, isRateLimitError, parseRetryAfter } from './rateLimit';
+export { runPool, type PoolOptions, type PoolResult } from './pool';
+
+// Built-in engines; the first registered one is active by default
+registerProvider(myMemoryProvider);
+registerProvider(createMemoryProvider());
+// Re-registered with the user's endpoint once settings are loaded
+registerProvider(createLibreTranslateProvider({ baseUrl: '' }));
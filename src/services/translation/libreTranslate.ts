@@ -0,0 +1,133 @@
+import type { TranslationProvider, ProviderCallOptions } from './types';
+import { LANGUAGES } from '../../constants/languages';
+import { RateLimitError, parseRetryAfter } from './rateLimit';
+
+/** Connection settings for a LibreTranslate-compatible server */
+export interface LibreTranslateConfig {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+interface ServerLanguage {
+  code: string;
+  name: string;
+  targets?: string[];
+}
+
+/**
+ * Map app language codes to the server's codes.
+ * Servers may use regional variants (e.g. 'zh-Hans', 'pt-BR'),
+ * so an exact match wins, otherwise the first `${code}-*` variant.
+ */
+export function mapServerLanguages(serverLangs: ServerLanguage[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const lang of LANGUAGES) {
+    if (lang.code === 'auto') continue;
+    const exact = serverLangs.find(s => s.code.toLowerCase() === lang.code);
+    const variant = serverLangs.find(s => s.code.toLowerCase().startsWith(`${lang.code}-`));
+    const match = exact || variant;
+    if (match) map.set(lang.code, match.code);
+  }
+  return map;
+}
+
+/** Whether `url` is a usable http(s) server address, rather than empty or half-typed input */
+export function isServerUrl(url: string) {
+  try {
+    const { protocol } = new URL(url.trim());
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/** Self-hosted LibreTranslate (https://libretranslate.com) or any server speaking its API */
+export function createLibreTranslateProvider(config: LibreTranslateConfig): TranslationProvider {
+  // An invalid address counts as not configured, so it never reaches fetch
+  const baseUrl = isServerUrl(config.baseUrl) ? config.baseUrl.trim().replace(/\/+$/, '') : '';
+  let codeMap: Promise<Map<string, string>> | null = null;
+
+  const post = async <T>(path: string, body: Record<string, unknown>, options?: ProviderCallOptions): Promise<T> => {
+    if (!baseUrl) throw new Error('LibreTranslate server URL is not configured');
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(config.apiKey ? { ...body, api_key: config.apiKey } : body),
+      signal: options?.signal,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null) as { error?: string } | null;
+      if (response.status === 429) {
+        throw new RateLimitError(data?.error || 'LibreTranslate rate limit', parseRetryAfter(response.headers.get('Retry-After')));
+      }
+      throw new Error(data?.error || `HTTP error: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  const getCodeMap = () => {
+    if (!codeMap) {
+      codeMap = (async () => {
+        if (!baseUrl) throw new Error('LibreTranslate server URL is not configured');
+        const response = await fetch(`${baseUrl}/languages`);
+        if (!response.ok) throw new Error(`HTTP error: ${response.status}`);
+        return mapServerLanguages(await response.json() as ServerLanguage[]);
+      })();
+      // Don't cache failures, the server may come up later
+      codeMap.catch(() => { codeMap = null; });
+    }
+    return codeMap;
+  };
+
+  const toServer = async (code: string) => {
+    if (code === 'auto') return 'auto';
+    const server = (await getCodeMap()).get(code);
+    if (!server) throw new Error(`Language not supported by server: ${code}`);
+    return server;
+  };
+
+  const fromServer = async (serverCode: string) => {
+    for (const [app, server] of await getCodeMap()) {
+      if (server === serverCode) return app;
+    }
+    return serverCode.split('-')[0];
+  };
+
+  const request = async (text: string, sourceLang: string, targetLang: string, alternatives: number, options?: ProviderCallOptions) => {
+    return post<{ translatedText: string; detectedLanguage?: { language: string }; alternatives?: string[] }>('/translate', {
+      q: text,
+      source: await toServer(sourceLang),
+      target: await toServer(targetLang),
+      format: 'text',
+      ...(alternatives > 0 ? { alternatives } : {}),
+    }, options);
+  };
+
+  return {
+    id: 'libretranslate',
+    name: 'LibreTranslate',
+    cacheScope: baseUrl,
+
+    async translate(text, sourceLang, targetLang, options) {
+      const data = await request(text, sourceLang, targetLang, 0, options);
+      const detected = sourceLang === 'auto' && data.detectedLanguage
+        ? await fromServer(data.detectedLanguage.language)
+        : undefined;
+      return { translatedText: data.translatedText, detectedLanguage: detected };
+    },
+
+    async alternatives(text, sourceLang, targetLang, options) {
+      const data = await request(text, sourceLang, targetLang, 3, options);
+      return (data.alternatives || []).map(translation => ({ segment: text, translation }));
+    },
+
+    async detectLanguage(text, options) {
+      const data = await post<Array<{ language: string; confidence: number }>>('/detect', { q: text }, options);
+      return data[0] ? fromServer(data[0].language) : null;
+    },
+
+    async supportedLanguages() {
+      return Array.from((await getCodeMap()).keys());
+    },
+  };
+}
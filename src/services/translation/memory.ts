@@ -0,0 +1,64 @@
+import type { TranslationProvider } from './types';
+import { throwIfAborted } from './abort';
+
+/** Phrase table: `${sourceLang}|${targetLang}` → lowercase source → translation */
+export type PhraseTable = Record<string, Record<string, string>>;
+
+const DEFAULT_PHRASES: PhraseTable = {
+  'uz|en': { 'salom': 'hello', 'rahmat': 'thank you', 'kitob': 'book', 'suv': 'water' },
+  'en|uz': { 'hello': 'salom', 'thank you': 'rahmat', 'book': 'kitob', 'water': 'suv' },
+  'uz|ru': { 'salom': 'привет', 'rahmat': 'спасибо', 'kitob': 'книга', 'suv': 'вода' },
+  'ru|uz': { 'привет': 'salom', 'спасибо': 'rahmat', 'книга': 'kitob', 'вода': 'suv' },
+};
+
+/** Guess a language from the script of the text (good enough offline) */
+export function detectScript(text: string): string {
+  if (/[぀-ヿ]/.test(text)) return 'ja';
+  if (/[가-힯]/.test(text)) return 'ko';
+  if (/[一-鿿]/.test(text)) return 'zh';
+  if (/[؀-ۿ]/.test(text)) return /[پچژگ]/.test(text) ? 'fa' : 'ar';
+  if (/[ऀ-ॿ]/.test(text)) return 'hi';
+  if (/[Ⴀ-ჿ]/.test(text)) return 'ka';
+  if (/[іїєґ]/i.test(text)) return 'uk';
+  if (/[Ѐ-ӿ]/.test(text)) return 'ru';
+  if (/[og][ʻ'‘]/i.test(text)) return 'uz';
+  return 'en';
+}
+
+/**
+ * Deterministic provider that never touches the network.
+ * Known phrases come from the table; anything else is echoed
+ * back tagged with the target language, e.g. "[en] matn".
+ */
+export function createMemoryProvider(phrases: PhraseTable = DEFAULT_PHRASES): TranslationProvider {
+  const lookup = (text: string, sourceLang: string, targetLang: string) => {
+    const from = sourceLang === 'auto' ? detectScript(text) : sourceLang;
+    const table = phrases[`${from}|${targetLang}`];
+    return { from, hit: table?.[text.trim().toLowerCase()] };
+  };
+
+  return {
+    id: 'memory',
+    name: 'Offline (test)',
+
+    async translate(text, sourceLang, targetLang, options) {
+      throwIfAborted(options?.signal);
+      const { from, hit } = lookup(text, sourceLang, targetLang);
+      return {
+        translatedText: hit ?? `[${targetLang}] ${text}`,
+        detectedLanguage: sourceLang === 'auto' ? from : undefined,
+      };
+    },
+
+    async alternatives(text, sourceLang, targetLang, options) {
+      throwIfAborted(options?.signal);
+      const { hit } = lookup(text, sourceLang, targetLang);
+      return hit ? [{ segment: text, translation: hit, quality: 100 }] : [];
+    },
+
+    async detectLanguage(text, options) {
+      throwIfAborted(options?.signal);
+      return text.trim() ? detectScript(text) : null;
+    },
+  };
+}
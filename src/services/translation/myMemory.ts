@@ -0,0 +1,84 @@
+import type { TranslationProvider, ProviderCallOptions, TranslationAlternative } from './types';
+import { RateLimitError, parseRetryAfter } from './rateLimit';
+
+interface MyMemoryResponse {
+  responseStatus: number | string;
+  responseData: { translatedText: string };
+  matches?: Array<{ segment: string; translation: string; source: string; quality?: number | string }>;
+}
+
+const API_URL = 'https://api.mymemory.translated.net/get';
+
+// Identical concurrent lookups (e.g. translate + alternatives) share one request
+const inFlight = new Map<string, { promise: Promise<MyMemoryResponse>; signal?: AbortSignal }>();
+
+/** MyMemory reports locales like 'en-GB'; the app only uses base codes */
+function baseCode(locale?: string) {
+  return locale ? locale.split('-')[0].toLowerCase() : undefined;
+}
+
+function buildLangPair(sourceLang: string, targetLang: string) {
+  return sourceLang === 'auto'
+    ? `autodetect|${targetLang}`
+    : `${sourceLang}|${targetLang}`;
+}
+
+async function request(text: string, langPair: string, options?: ProviderCallOptions): Promise<MyMemoryResponse> {
+  const url = `${API_URL}?q=${encodeURIComponent(text)}&langpair=${langPair}`;
+  // Only calls under the same signal share, so one caller can't cancel another
+  const pending = inFlight.get(url);
+  if (pending && pending.signal === options?.signal) return pending.promise;
+
+  const promise = fetchJson(url, options?.signal).finally(() => {
+    if (inFlight.get(url)?.promise === promise) inFlight.delete(url);
+  });
+  inFlight.set(url, { promise, signal: options?.signal });
+  return promise;
+}
+
+async function fetchJson(url: string, signal?: AbortSignal): Promise<MyMemoryResponse> {
+  const response = await fetch(url, { signal });
+  if (response.status === 429) {
+    throw new RateLimitError('MyMemory rate limit', parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`);
+  }
+  const data = await response.json() as MyMemoryResponse;
+  // The free daily quota is reported in the body with a 200 response
+  if (Number(data.responseStatus) === 429) throw new RateLimitError(`API error: ${data.responseStatus}`);
+  if (data.responseStatus !== 200 && data.responseStatus !== undefined) {
+    throw new Error(`API error: ${data.responseStatus}`);
+  }
+  return data;
+}
+
+/** Public MyMemory API (https://mymemory.translated.net) */
+export const myMemoryProvider: TranslationProvider = {
+  id: 'mymemory',
+  name: 'MyMemory',
+  maxQueryBytes: 500,
+
+  async translate(text, sourceLang, targetLang, options) {
+    const data = await request(text, buildLangPair(sourceLang, targetLang), options);
+    const detectedLanguage = sourceLang === 'auto' ? baseCode(data.matches?.[0]?.source) : undefined;
+    return { translatedText: data.responseData.translatedText, detectedLanguage };
+  },
+
+  async alternatives(text, sourceLang, targetLang, options) {
+    const data = await request(text, buildLangPair(sourceLang, targetLang), options);
+    if (!Array.isArray(data.matches)) return [];
+    return data.matches
+      .filter(m => m.translation?.trim())
+      .map((m): TranslationAlternative => ({
+        segment: m.segment,
+        translation: m.translation.trim(),
+        quality: m.quality !== undefined ? Number(m.quality) : undefined,
+      }));
+  },
+
+  async detectLanguage(text, options) {
+    const data = await request(text, buildLangPair('auto', 'en'), options);
+    return baseCode(data.matches?.[0]?.source) || null;
+  },
+};
@@ -0,0 +1,95 @@
+import { abortableDelay, throwIfAborted } from './abort';
+import { isRateLimitError } from './rateLimit';
+
+export type PoolResult<R> = { ok: true; value: R } | { ok: false; error: unknown };
+
+export interface PoolOptions {
+  /** Requests in flight at once */
+  concurrency: number;
+  signal?: AbortSignal;
+  /** Times one item is retried after a rate-limit answer before it fails */
+  maxRateLimitRetries?: number;
+  /** Called when every worker pauses for a rate limit */
+  onRateLimit?: (waitMs: number) => void;
+}
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+/** Successes in a row before a halved concurrency grows back by one */
+const RECOVER_AFTER_SUCCESSES = 5;
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * A rate-limit error pauses every worker (Retry-After or exponential
+ * backoff), drops the concurrency by half and retries that item; a run
+ * of successes raises it back one step at a time. Other errors settle the
+ * item as failed. Results are reported per item as they settle; rejects
+ * only when the signal aborts.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  onSettled: (index: number, result: PoolResult<R>) => void,
+  { concurrency, signal, maxRateLimitRetries = 5, onRateLimit }: PoolOptions
+): Promise<void> {
+  let next = 0;
+  const maxLimit = Math.max(1, Math.floor(concurrency));
+  let limit = maxLimit;
+  let successStreak = 0;
+  let active = 0;
+  let pausedUntil = 0;
+  let backoffLevel = 0;
+
+  // Takes the slot in the same step as the check, so lanes waking together can't overshoot `limit`
+  const waitForTurn = async () => {
+    for (;;) {
+      throwIfAborted(signal);
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) await abortableDelay(pause, signal);
+      else if (active >= limit) await abortableDelay(100, signal);
+      else {
+        active++;
+        return;
+      }
+    }
+  };
+
+  const runItem = async (index: number) => {
+    for (let attempt = 0; ; attempt++) {
+      await waitForTurn();
+      try {
+        const value = await worker(items[index], index);
+        backoffLevel = Math.max(0, backoffLevel - 1);
+        if (limit < maxLimit && ++successStreak >= RECOVER_AFTER_SUCCESSES) {
+          limit++;
+          successStreak = 0;
+        }
+        onSettled(index, { ok: true, value });
+        return;
+      } catch (err) {
+        throwIfAborted(signal);
+        if (!isRateLimitError(err) || attempt >= maxRateLimitRetries) {
+          onSettled(index, { ok: false, error: err });
+          return;
+        }
+        const wait = err.retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** backoffLevel);
+        backoffLevel++;
+        limit = Math.max(1, Math.floor(limit / 2));
+        successStreak = 0;
+        pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+        onRateLimit?.(wait);
+      } finally {
+        active--;
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < items.length) {
+      await runItem(next++);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(maxLimit, items.length) }, lane));
+}
@@ -0,0 +1,32 @@
+import type { TranslationProvider } from './types';
+
+const providers = new Map<string, TranslationProvider>();
+let activeId: string | null = null;
+
+/** Register (or replace) a provider by its id */
+export function registerProvider(provider: TranslationProvider) {
+  providers.set(provider.id, provider);
+  if (!activeId) activeId = provider.id;
+}
+
+/** Get a provider by id */
+export function getProvider(id: string): TranslationProvider | undefined {
+  return providers.get(id);
+}
+
+/** List all registered providers in registration order */
+export function listProviders(): TranslationProvider[] {
+  return Array.from(providers.values());
+}
+
+/** Switch the active provider; unknown ids are ignored */
+export function setActiveProvider(id: string) {
+  if (providers.has(id)) activeId = id;
+}
+
+/** The provider every hook should translate through */
+export function getActiveProvider(): TranslationProvider {
+  const provider = activeId ? providers.get(activeId) : undefined;
+  if (!provider) throw new Error('[TranslationProvider] No provider registered');
+  return provider;
+}
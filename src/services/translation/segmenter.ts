@@ -0,0 +1,157 @@
+import type { ProviderTranslation } from './types';
+
+/** Sentence terminators: Latin/Cyrillic, CJK (。！？) and Arabic/Urdu (؟ ۔), with closing quotes and trailing space */
+const SENTENCE_END_RE = /[.!?…。！？؟۔]+["'”’»)\]」』]*\s*/g;
+
+/** Targets written without spaces between sentences */
+const NO_SPACE_LANGS = new Set(['zh', 'ja']);
+
+const encoder = new TextEncoder();
+
+/** UTF-8 size; most engines limit queries in bytes, not characters */
+export function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+/**
+ * Split a paragraph into sentences, keeping trailing whitespace on each.
+ * The sentences join back into `text` exactly; punctuation with nothing
+ * before it (a leading "…") stays with the sentence that follows.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END_RE)) {
+    if (!text.slice(start, match.index).trim()) continue;
+    const end = match.index + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  const rest = text.slice(start);
+  if (rest.trim() || sentences.length === 0) {
+    if (rest) sentences.push(rest);
+  } else {
+    sentences[sentences.length - 1] += rest;
+  }
+  return sentences;
+}
+
+/** Break a single over-long sentence at word boundaries, or per character for unspaced scripts */
+function splitLong(sentence: string, maxBytes: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const push = (token: string) => {
+    if (current && byteLength(current + token) > maxBytes) {
+      pieces.push(current);
+      current = '';
+    }
+    current += token;
+  };
+
+  for (const token of sentence.split(/(\s+)/)) {
+    if (byteLength(token) <= maxBytes) {
+      push(token);
+    } else {
+      for (const char of token) push(char);
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+}
+
+/** A paragraph of chunks and the exact whitespace that followed it */
+export interface ChunkedParagraph {
+  chunks: string[];
+  separator: string;
+}
+
+/**
+ * Plan how to send `text` to an engine: paragraphs split on line breaks,
+ * each packed greedily with whole sentences up to `maxBytes` per chunk.
+ */
+export function chunkText(text: string, maxBytes: number): ChunkedParagraph[] {
+  const paragraphs: ChunkedParagraph[] = [];
+  // Whitespace outside any chunk goes after the previous paragraph; before the first one it gets an empty paragraph
+  const keep = (whitespace: string) => {
+    if (!whitespace) return;
+    if (paragraphs.length > 0) paragraphs[paragraphs.length - 1].separator += whitespace;
+    else paragraphs.push({ chunks: [], separator: whitespace });
+  };
+  const parts = text.split(/(\s*\n\s*)/);
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const paragraph = parts[i];
+    const separator = parts[i + 1] ?? '';
+    if (!paragraph.trim()) {
+      keep(paragraph + separator);
+      continue;
+    }
+    const leading = paragraph.match(/^\s*/)![0];
+    const trailing = paragraph.match(/\s*$/)![0];
+    keep(leading);
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const sentence of splitSentences(paragraph.trim())) {
+      const pieces = byteLength(sentence) > maxBytes ? splitLong(sentence, maxBytes) : [sentence];
+      for (const piece of pieces) {
+        if (current && byteLength(current + piece) > maxBytes) {
+          chunks.push(current.trim());
+          current = '';
+        }
+        current += piece;
+      }
+    }
+    if (current.trim()) chunks.push(current.trim());
+    paragraphs.push({ chunks, separator: trailing + separator });
+  }
+
+  return paragraphs;
+}
+
+export interface ChunkedTranslateOptions {
+  maxBytes?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Translate text of any length chunk by chunk and reassemble it
+ * with the original paragraph breaks. `translateChunk` does the
+ * actual engine call (and any retry/cancellation around it).
+ */
+export async function translateChunked(
+  text: string,
+  targetLang: string,
+  translateChunk: (chunk: string) => Promise<ProviderTranslation>,
+  options: ChunkedTranslateOptions = {}
+): Promise<ProviderTranslation> {
+  const { maxBytes = Infinity, onProgress } = options;
+
+  if (byteLength(text) <= maxBytes) {
+    const result = await translateChunk(text);
+    onProgress?.(1, 1);
+    return result;
+  }
+
+  const paragraphs = chunkText(text, maxBytes);
+  const total = paragraphs.reduce((n, p) => n + p.chunks.length, 0);
+  const joiner = NO_SPACE_LANGS.has(targetLang) ? '' : ' ';
+  let done = 0;
+  let detectedLanguage: string | undefined;
+  let output = '';
+
+  onProgress?.(0, total);
+  for (const paragraph of paragraphs) {
+    const translated: string[] = [];
+    for (const chunk of paragraph.chunks) {
+      const result = await translateChunk(chunk);
+      detectedLanguage ??= result.detectedLanguage;
+      translated.push(result.translatedText.trim());
+      onProgress?.(++done, total);
+    }
+    output += translated.join(joiner) + paragraph.separator;
+  }
+
+  return { translatedText: output, detectedLanguage };
+}
@@ -0,0 +1,35 @@
+/** Options shared by every provider call */
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+}
+
+/** Result of a single translation */
+export interface ProviderTranslation {
+  translatedText: string;
+  detectedLanguage?: string;
+}
+
+/** Alternative translation candidate (e.g. translation memory match) */
+export interface TranslationAlternative {
+  segment: string;
+  translation: string;
+  quality?: number;
+}
+
+/**
+ * Contract every translation backend implements.
+ * Language codes are the `LANGUAGES` codes; 'auto' means "detect".
+ */
+export interface TranslationProvider {
+  id: string;
+  name: string;
+  /** Longest query (UTF-8 bytes) the backend accepts; longer texts are chunked */
+  maxQueryBytes?: number;
+  /** Fingerprint of the instance's configuration (e.g. server URL); results are cached per scope */
+  cacheScope?: string;
+  translate(text: string, sourceLang: string, targetLang: string, options?: ProviderCallOptions): Promise<ProviderTranslation>;
+  alternatives(text: string, sourceLang: string, targetLang: string, options?: ProviderCallOptions): Promise<TranslationAlternative[]>;
+  detectLanguage(text: string, options?: ProviderCallOptions): Promise<string | null>;
+  /** App language codes the backend can handle; omitted means "all of them" */
+  supportedLanguages?(): Promise<string[]>;
+}
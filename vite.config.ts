@@ -1,17 +1,62 @@
+import fs from "fs";
+import { createRequire } from "module";
 import path from "path";
 import { fileURLToPath } from "url";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { defineConfig, defaultClientConditions, type Plugin } from "vite";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * ONNX Runtime's WASM binary and loader, fetched by the Whisper worker on first use.
+ * Pinned in package.json to the version @huggingface/transformers imports.
+ */
+const ORT_DIST = path.dirname(createRequire(import.meta.url).resolve("onnxruntime-web"));
+const ORT_FILES = ["ort-wasm-simd-threaded.jsep.mjs", "ort-wasm-simd-threaded.jsep.wasm"];
+
+/**
+ * Serve the runtime from `whisper/` next to index.html, so it is self-hosted
+ * instead of coming from a CDN and stays out of the single-file bundle.
+ * Whisper models can be placed in `whisper/models/` the same way.
+ */
+function whisperRuntime(): Plugin {
+  return {
+    name: "whisper-runtime",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split("?")[0] ?? "";
+        if (!url.startsWith("/whisper/") || fs.existsSync(path.join(server.config.publicDir, url))) return next();
+        const file = url.slice("/whisper/".length);
+        // Missing models must 404 rather than get index.html, so the hub is tried
+        if (!ORT_FILES.includes(file)) {
+          res.statusCode = 404;
+          return res.end();
+        }
+        res.setHeader("Content-Type", file.endsWith(".wasm") ? "application/wasm" : "text/javascript");
+        fs.createReadStream(path.join(ORT_DIST, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of ORT_FILES) {
+        this.emitFile({ type: "asset", fileName: `whisper/${file}`, source: fs.readFileSync(path.join(ORT_DIST, file)) });
+      }
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss(), viteSingleFile()],
+  plugins: [react(), tailwindcss(), viteSingleFile(), whisperRuntime()],
+  // The speech recognition worker imports ONNX Runtime, which code-splits
+  worker: {
+    format: "es",
+  },
   resolve: {
+    // ONNX Runtime without the WASM binary inlined; it is loaded from whisper/ instead
+    conditions: ["onnxruntime-web-use-extern-wasm", ...defaultClientConditions],
     alias: {
       "@": path.resolve(__dirname, "src"),
     },